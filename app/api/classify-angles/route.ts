@@ -0,0 +1,49 @@
+import { getServerCacheStore } from "@/lib/analysis-cache-server"
+import { classifyImageAngles } from "@/lib/angle-classification-service"
+import { getAngleTemplate } from "@/lib/angle-templates"
+
+// Angle labels and the proposed pairing are shown before the analysis, so this is a
+// plain JSON request rather than a progress stream. It also runs while only one side has
+// images, to fill in the required-shot checklist of the "template" category.
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+function getImages(formData: FormData, field: string): File[] {
+  return formData.getAll(field).filter((value): value is File => value instanceof File)
+}
+
+export async function POST(request: Request) {
+  let formData: FormData
+  try {
+    formData = await request.formData()
+  } catch {
+    return Response.json({ error: "Expected multipart form data with packaging or delivery images" }, { status: 400 })
+  }
+
+  const packagingImages = getImages(formData, "packaging")
+  const deliveryImages = getImages(formData, "delivery")
+  if (packagingImages.length === 0 && deliveryImages.length === 0) {
+    return Response.json({ error: "Please upload at least one image to classify" }, { status: 400 })
+  }
+
+  const templateId = formData.get("template")
+  const template = typeof templateId === "string" && templateId ? getAngleTemplate(templateId) : undefined
+  if (typeof templateId === "string" && templateId && !template) {
+    return Response.json({ error: `Unknown product category "${templateId}"` }, { status: 400 })
+  }
+
+  try {
+    const result = await classifyImageAngles(packagingImages, deliveryImages, {
+      cache: getServerCacheStore(),
+      signal: request.signal,
+      stageTimeoutMs: Number(process.env.ANALYSIS_STAGE_TIMEOUT_MS) || undefined,
+      template,
+    })
+    return Response.json(result)
+  } catch (error) {
+    return Response.json(
+      { error: error instanceof Error ? error.message : "Angle classification failed" },
+      { status: 500 },
+    )
+  }
+}
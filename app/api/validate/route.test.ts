@@ -0,0 +1,82 @@
+import { beforeAll, describe, expect, it, vi } from "vitest"
+import type { MultiImageAnalysisResult } from "@/lib/multi-image-gemini-service"
+import { readStreamMessages, type ValidationStreamMessage } from "@/lib/validation-stream"
+
+// The whole validation flow, offline: VISION_PROVIDER=mock answers every stage from the images' hashes
+let POST: (request: Request) => Promise<Response>
+
+beforeAll(async () => {
+  vi.stubEnv("VISION_PROVIDER", "mock")
+  vi.stubEnv("ANALYSIS_CACHE_STORE", "none")
+  ;({ POST } = await import("@/app/api/validate/route"))
+})
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+
+// Only the signature is read on the server, so the rest just makes each photo distinct
+const photo = (name: string) =>
+  new File([new Uint8Array([...PNG_SIGNATURE, ...new TextEncoder().encode(name)])], `${name}.png`)
+
+async function validate(fields: Record<string, string | File[]>) {
+  const formData = new FormData()
+  for (const [name, value] of Object.entries(fields)) {
+    if (typeof value === "string") formData.append(name, value)
+    else value.forEach((file) => formData.append(name, file))
+  }
+  const response = await POST(new Request("http://localhost/api/validate", { method: "POST", body: formData }))
+  if (!response.ok) return { status: response.status, messages: [], body: await response.json() }
+
+  const messages: ValidationStreamMessage<MultiImageAnalysisResult>[] = []
+  for await (const message of readStreamMessages<MultiImageAnalysisResult>(response.body!)) messages.push(message)
+  const last = messages[messages.length - 1]
+  return { status: response.status, messages, result: last.type === "result" ? last.result : undefined, last }
+}
+
+describe("POST /api/validate", () => {
+  it("passes the same product photographed at packaging and delivery", async () => {
+    const images = [photo("front"), photo("back")]
+    const { messages, result, last } = await validate({ mode: "multi", packaging: images, delivery: images })
+
+    expect(last).toMatchObject({ type: "result" })
+    expect(messages.some((message) => message.type === "progress")).toBe(true)
+    expect(result).toMatchObject({ verdict: "pass", areProductsSame: true, overallSimilarityPercentage: 100 })
+    expect(result!.identifierCheck.mismatch).toBe(false)
+    expect(result!.angleAnalysis.map((angle) => [angle.packagingImageIndex, angle.deliveryImageIndex])).toEqual([
+      [0, 0],
+      [1, 1],
+    ])
+  })
+
+  it("compares exactly the confirmed pairs", async () => {
+    const pairing = [
+      { packagingIndex: 0, deliveryIndex: 1, angle: "front", agreement: 0.9, manual: true },
+      { packagingIndex: 1, deliveryIndex: 0, angle: "back", agreement: 0.9, manual: true },
+    ]
+    const { result } = await validate({
+      packaging: [photo("front"), photo("back")],
+      delivery: [photo("back"), photo("front")],
+      pairing: JSON.stringify(pairing),
+    })
+
+    expect(result!.angleAnalysis.map((angle) => [angle.packagingImageIndex, angle.deliveryImageIndex])).toEqual([
+      [0, 1],
+      [1, 0],
+    ])
+    expect(result!.verdict).toBe("pass")
+  })
+
+  it("rejects requests it can't analyze", async () => {
+    expect((await validate({ packaging: [photo("front")] })).status).toBe(400)
+    const emptyPairing = await validate({ packaging: [photo("front")], delivery: [photo("front")], pairing: "[]" })
+    expect(emptyPairing).toMatchObject({
+      status: 400,
+      body: { error: "The image pairing must contain at least one pair" },
+    })
+  })
+
+  it("streams an error for a file that isn't a supported image", async () => {
+    const text = new File(["just text"], "notes.txt")
+    const { last } = await validate({ packaging: [text], delivery: [photo("front")] })
+    expect(last).toMatchObject({ type: "error" })
+  })
+})
@@ -0,0 +1,109 @@
+import { getServerCacheStore } from "@/lib/analysis-cache-server"
+import { parseLocalBarcodeScan, type LocalBarcodeScan } from "@/lib/barcode-check"
+import type { AnalysisProgressEvent } from "@/lib/analysis-progress"
+import { parseImagePairing, type ImagePair } from "@/lib/angle-pairing"
+import { analyzeImages } from "@/lib/gemini-vision-service"
+import { analyzeMultipleImages } from "@/lib/multi-image-gemini-service"
+import { parseOrderManifest, type OrderManifest } from "@/lib/order-manifest"
+import { encodeStreamMessage, type ValidationStreamMessage } from "@/lib/validation-stream"
+
+// Gemini calls happen here so the API key stays on the server
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+function getImages(formData: FormData, field: string): File[] {
+  return formData.getAll(field).filter((value): value is File => value instanceof File)
+}
+
+export async function POST(request: Request) {
+  let formData: FormData
+  try {
+    formData = await request.formData()
+  } catch {
+    return Response.json({ error: "Expected multipart form data with packaging and delivery images" }, { status: 400 })
+  }
+
+  const packagingImages = getImages(formData, "packaging")
+  const deliveryImages = getImages(formData, "delivery")
+  const mode = formData.get("mode") === "single" ? "single" : "multi"
+
+  if (packagingImages.length === 0 || deliveryImages.length === 0) {
+    return Response.json(
+      { error: "Please upload at least one image for both packaging and delivery" },
+      { status: 400 },
+    )
+  }
+
+  // Optional JSON order manifest; only the multi-angle pipeline checks against it
+  const manifestField = formData.get("manifest")
+  let manifest: OrderManifest | undefined
+  if (typeof manifestField === "string" && manifestField.trim()) {
+    try {
+      manifest = parseOrderManifest(manifestField)
+    } catch (error) {
+      return Response.json({ error: error instanceof Error ? error.message : "Invalid order manifest" }, { status: 400 })
+    }
+  }
+
+  // Optional barcodes decoded in the browser, one list per uploaded image
+  const barcodesField = formData.get("barcodes")
+  let barcodes: LocalBarcodeScan | undefined
+  if (typeof barcodesField === "string" && barcodesField.trim()) {
+    try {
+      barcodes = parseLocalBarcodeScan(barcodesField)
+    } catch (error) {
+      return Response.json({ error: error instanceof Error ? error.message : "Invalid barcode scan" }, { status: 400 })
+    }
+  }
+
+  // Optional packaging↔delivery pairing confirmed in the browser
+  const pairingField = formData.get("pairing")
+  let pairing: ImagePair[] | undefined
+  if (typeof pairingField === "string" && pairingField.trim()) {
+    try {
+      pairing = parseImagePairing(pairingField, packagingImages.length, deliveryImages.length)
+    } catch (error) {
+      return Response.json({ error: error instanceof Error ? error.message : "Invalid image pairing" }, { status: 400 })
+    }
+  }
+
+  // The analysis stops as soon as the browser disconnects or cancels the stream
+  const abortController = new AbortController()
+  request.signal.addEventListener("abort", () => abortController.abort(request.signal.reason), { once: true })
+  const signal = abortController.signal
+  const stageTimeoutMs = Number(process.env.ANALYSIS_STAGE_TIMEOUT_MS) || undefined
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (message: ValidationStreamMessage) => {
+        if (!signal.aborted) controller.enqueue(encodeStreamMessage(message))
+      }
+      const onProgress = (event: AnalysisProgressEvent) => send({ type: "progress", event })
+      const options = { cache: getServerCacheStore(), onProgress, signal, stageTimeoutMs }
+
+      try {
+        const result =
+          mode === "single"
+            ? await analyzeImages(packagingImages[0], deliveryImages[0], options)
+            : await analyzeMultipleImages(packagingImages, deliveryImages, { ...options, manifest, barcodes, pairing })
+        send({ type: "result", result })
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Analysis failed"
+        send({ type: "error", error: message })
+      } finally {
+        if (!signal.aborted) controller.close()
+      }
+    },
+
+    cancel(reason) {
+      abortController.abort(reason)
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-store",
+    },
+  })
+}
@@ -1,43 +1,84 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useRef, useState } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Progress } from "@/components/ui/progress"
 import { Alert, AlertDescription } from "@/components/ui/alert"
-import { Package, Truck, Zap, Eye, Shield, Sparkles, Images, Camera } from "lucide-react"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Package, Truck, Zap, Eye, Shield, Sparkles, Images, Camera, X, ListChecks, Loader2 } from "lucide-react"
 import MultiImageUploader from "@/components/multi-image-uploader"
 import MultiImageResults from "@/components/multi-image-results"
-import { analyzeMultipleImages } from "@/lib/multi-image-gemini-service"
-
-interface MultiImageAnalysisResult {
-  packagingProduct: string
-  deliveryProduct: string
-  areProductsSame: boolean
-  overallSimilarityPercentage: number
-  angleAnalysis: Array<{
-    angle: string
-    packagingImageIndex: number
-    deliveryImageIndex: number
-    similarityPercentage: number
-    differences: string[]
-    matchQuality: "excellent" | "good" | "fair" | "poor"
-  }>
-  comprehensiveDifferences: string[]
-  detailedSummary: string
-  confidenceScore: number
-  technicalAnalysis: any
-  recommendations: string[]
-}
+import AnglePairingEditor from "@/components/angle-pairing-editor"
+import OrderManifestForm, {
+  EMPTY_MANIFEST_DRAFT,
+  toOrderManifest,
+  type OrderManifestDraft,
+} from "@/components/order-manifest-form"
+import { requestMultiImageValidation } from "@/lib/validation-client"
+import type { MultiImageAnalysisResult } from "@/lib/multi-image-gemini-service"
+import type { AnalysisProgressEvent } from "@/lib/analysis-progress"
+import {
+  ANGLE_TEMPLATES,
+  DEFAULT_ANGLE_TEMPLATE_ID,
+  checkSlotCoverage,
+  getAngleTemplate,
+  missingSlots,
+} from "@/lib/angle-templates"
+import { isAbortError } from "@/lib/abort"
+import { scanImageFile } from "@/lib/barcode-scanner"
+import {
+  PIXEL_ENGINE,
+  compareAnglePixels,
+  withPixelComparisonError,
+  withPixelComparisons,
+  type PixelComparison,
+} from "@/lib/pixel-comparison"
+import { PythonRuntimeError, initializePyodide } from "@/lib/python-image-processor"
+import { useAngleClassification } from "@/hooks/use-angle-classification"
 
 export default function MultiAngleDeliveryValidationApp() {
   const [packagingImages, setPackagingImages] = useState<File[]>([])
   const [deliveryImages, setDeliveryImages] = useState<File[]>([])
+  const [manifestDraft, setManifestDraft] = useState<OrderManifestDraft>(EMPTY_MANIFEST_DRAFT)
+  // Images that failed the local quality check; they block the analysis unless overridden
+  const [blockedPackagingImages, setBlockedPackagingImages] = useState<File[]>([])
+  const [blockedDeliveryImages, setBlockedDeliveryImages] = useState<File[]>([])
+  const [qualityOverride, setQualityOverride] = useState(false)
+  const [packagingQualityPending, setPackagingQualityPending] = useState(false)
+  const [deliveryQualityPending, setDeliveryQualityPending] = useState(false)
+  // The product category decides which shots are required on each side
+  const [templateId, setTemplateId] = useState(DEFAULT_ANGLE_TEMPLATE_ID)
+  // Angle labels, filled slots and the packaging↔delivery pairs, as proposed and then repaired by the user
+  const {
+    result: anglePairing,
+    setResult: setAnglePairing,
+    isClassifying: isClassifyingAngles,
+    error: angleClassificationError,
+    retry: retryAngleClassification,
+  } = useAngleClassification(packagingImages, deliveryImages, templateId)
   const [isAnalyzing, setIsAnalyzing] = useState(false)
   const [analysisProgress, setAnalysisProgress] = useState(0)
   const [results, setResults] = useState<MultiImageAnalysisResult | null>(null)
+  // The pixel comparisons are still being added to the results shown
+  const [isCrossChecking, setIsCrossChecking] = useState(false)
+  // The images behind the current results, kept apart so later uploads don't shift the overlays
+  const [analyzedImages, setAnalyzedImages] = useState<{ packaging: File[]; delivery: File[] }>({
+    packaging: [],
+    delivery: [],
+  })
   const [error, setError] = useState<string | null>(null)
+  const [progressMessage, setProgressMessage] = useState("")
+  const [retryMessage, setRetryMessage] = useState<string | null>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
+
+  // The override covers the images it was given for; new or retaken ones are checked again
+  useEffect(() => {
+    setQualityOverride(false)
+  }, [packagingImages, deliveryImages])
 
   const features = [
     { icon: Sparkles, label: "Gemini Pro Vision", color: "bg-purple-100 text-purple-700" },
@@ -53,41 +94,147 @@ export default function MultiAngleDeliveryValidationApp() {
       return
     }
 
+    // The pairing is cleared while the angles are classified; sending none would let the model
+    // pair the images itself and drop the user's pairs
+    if (isClassifyingAngles) {
+      setError("Wait for the angles to be detected")
+      return
+    }
+
+    if (pairingEmpty) {
+      setError("Pair at least one packaging image with a delivery image, or detect the angles again")
+      return
+    }
+
+    if (qualityPending) {
+      setError("Wait for the image quality checks to finish")
+      return
+    }
+
+    if (qualityBlocked) {
+      setError("Retake the images that failed the quality check, or choose to analyze them anyway")
+      return
+    }
+
+    const { manifest, error: manifestError } = toOrderManifest(manifestDraft)
+    if (manifestError) {
+      setError(manifestError)
+      return
+    }
+
+    // A previous analysis may still be cross-checking its results
+    abortControllerRef.current?.abort()
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+
     setIsAnalyzing(true)
     setError(null)
     setResults(null)
+    setIsCrossChecking(false)
     setAnalysisProgress(0)
+    setProgressMessage("Decoding barcodes on this device...")
+    setRetryMessage(null)
+
+    // Progress reflects the server pipeline; a retry keeps its notice up until the next stage event
+    const handleProgress = (event: AnalysisProgressEvent) => {
+      setAnalysisProgress(event.progress)
+      if (event.type === "retry") {
+        setRetryMessage(event.message)
+      } else {
+        setProgressMessage(event.message)
+        setRetryMessage(null)
+      }
+    }
 
     try {
-      // Simulate progress updates
-      const progressInterval = setInterval(() => {
-        setAnalysisProgress((prev) => {
-          if (prev >= 90) {
-            clearInterval(progressInterval)
-            return 90
-          }
-          return prev + 10
+      // Usually already done while the images were added; scans are cached per file
+      const barcodes = {
+        packaging: await Promise.all(packagingImages.map(scanImageFile)),
+        delivery: await Promise.all(deliveryImages.map(scanImageFile)),
+      }
+      abortController.signal.throwIfAborted()
+      setProgressMessage("Uploading images...")
+
+      // The Python runtime for the pixel comparison starts while the server analyses the images
+      if (PIXEL_ENGINE === "python") {
+        initializePyodide(abortController.signal).catch((err) => {
+          if (!isAbortError(err)) console.warn("Pixel comparison unavailable:", err)
         })
-      }, 1500)
+      }
 
-      const result = await analyzeMultipleImages(packagingImages, deliveryImages)
+      const serverResult = await requestMultiImageValidation(packagingImages, deliveryImages, {
+        onProgress: handleProgress,
+        signal: abortController.signal,
+        manifest,
+        barcodes,
+        pairing: anglePairing?.pairs,
+      })
 
-      clearInterval(progressInterval)
-      setAnalysisProgress(100)
+      abortController.signal.throwIfAborted()
+      setAnalyzedImages({ packaging: packagingImages, delivery: deliveryImages })
+      setResults(serverResult)
+      setIsAnalyzing(false)
+      setAnalysisProgress(0)
+      setProgressMessage("")
+      setRetryMessage(null)
 
-      setTimeout(() => {
-        setResults(result)
-        setIsAnalyzing(false)
-        setAnalysisProgress(0)
-      }, 500)
+      // A second opinion per compared angle, added to the results as each one finishes; the
+      // result stands without it if Python can't run here
+      setIsCrossChecking(true)
+      const pixelComparisons: Array<PixelComparison | null> = []
+      try {
+        await compareAnglePixels(packagingImages, deliveryImages, serverResult.angleAnalysis, {
+          signal: abortController.signal,
+          onComparison: (angleIndex, comparison) => {
+            pixelComparisons[angleIndex] = comparison
+            setResults(withPixelComparisons(serverResult, pixelComparisons))
+          },
+        })
+      } catch (err) {
+        if (!(err instanceof PythonRuntimeError)) throw err
+        setResults(withPixelComparisonError(serverResult, err.message))
+      }
+      setIsCrossChecking(false)
     } catch (err) {
+      // handleCancel has already reset the state
+      if (abortController.signal.aborted || isAbortError(err)) return
       setError(err instanceof Error ? err.message : "Analysis failed")
       setIsAnalyzing(false)
+      setIsCrossChecking(false)
       setAnalysisProgress(0)
+    } finally {
+      if (abortControllerRef.current === abortController) abortControllerRef.current = null
     }
   }
 
+  const handleCancel = () => {
+    abortControllerRef.current?.abort()
+    abortControllerRef.current = null
+    setIsAnalyzing(false)
+    setIsCrossChecking(false)
+    setAnalysisProgress(0)
+    setProgressMessage("")
+    setRetryMessage(null)
+  }
+
   const totalImages = packagingImages.length + deliveryImages.length
+  const blockedImageCount = blockedPackagingImages.length + blockedDeliveryImages.length
+  const qualityBlocked = blockedImageCount > 0 && !qualityOverride
+  const qualityPending = packagingQualityPending || deliveryQualityPending
+  // Every pair was removed in the editor; nothing would be compared
+  const pairingEmpty =
+    packagingImages.length > 0 && deliveryImages.length > 0 && anglePairing !== null && anglePairing.pairs.length === 0
+
+  const template = getAngleTemplate(templateId)!
+  const packagingChecklist = checkSlotCoverage(template, anglePairing?.packaging ?? [])
+  const deliveryChecklist = checkSlotCoverage(template, anglePairing?.delivery ?? [])
+  // Only once the current images have been classified, so the warning doesn't flash while uploading
+  const missingShots = anglePairing
+    ? [
+        { side: "Packaging", slots: packagingImages.length > 0 ? missingSlots(packagingChecklist) : [] },
+        { side: "Delivery", slots: deliveryImages.length > 0 ? missingSlots(deliveryChecklist) : [] },
+      ].filter((entry) => entry.slots.length > 0)
+    : []
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-purple-50 via-blue-50 to-indigo-100">
@@ -122,6 +269,26 @@ export default function MultiAngleDeliveryValidationApp() {
 
         {/* Main Content */}
         <div className="max-w-7xl mx-auto">
+          {/* Product Category */}
+          <div className="flex items-center justify-center gap-3 mb-6">
+            <Label htmlFor="product-category" className="flex items-center gap-2 text-sm text-gray-700">
+              <ListChecks className="w-4 h-4" />
+              Product category
+            </Label>
+            <Select value={templateId} onValueChange={setTemplateId} disabled={isAnalyzing}>
+              <SelectTrigger id="product-category" className="w-48 bg-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ANGLE_TEMPLATES.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
           {/* Upload Section */}
           <div className="grid lg:grid-cols-2 gap-8 mb-8">
             <Card className="border-2 border-dashed border-gray-200 hover:border-purple-300 transition-colors">
@@ -141,6 +308,9 @@ export default function MultiAngleDeliveryValidationApp() {
                   placeholder="Upload packaging images from multiple angles"
                   description="Front, back, sides, top, bottom - capture all angles"
                   maxImages={5}
+                  onBlockedImagesChange={setBlockedPackagingImages}
+                  onQualityPendingChange={setPackagingQualityPending}
+                  checklist={packagingChecklist}
                 />
               </CardContent>
             </Card>
@@ -162,11 +332,31 @@ export default function MultiAngleDeliveryValidationApp() {
                   placeholder="Upload delivery images from multiple angles"
                   description="Match the same angles as packaging images"
                   maxImages={5}
+                  onBlockedImagesChange={setBlockedDeliveryImages}
+                  onQualityPendingChange={setDeliveryQualityPending}
+                  checklist={deliveryChecklist}
                 />
               </CardContent>
             </Card>
           </div>
 
+          {/* Angle Pairing */}
+          {packagingImages.length > 0 && deliveryImages.length > 0 && (
+            <AnglePairingEditor
+              packagingImages={packagingImages}
+              deliveryImages={deliveryImages}
+              value={anglePairing}
+              onChange={setAnglePairing}
+              onDetect={retryAngleClassification}
+              isDetecting={isClassifyingAngles}
+              error={angleClassificationError}
+              disabled={isAnalyzing}
+            />
+          )}
+
+          {/* Order Manifest */}
+          <OrderManifestForm value={manifestDraft} onChange={setManifestDraft} disabled={isAnalyzing} />
+
           {/* Analysis Summary */}
           {totalImages > 0 && (
             <Card className="mb-8 bg-gradient-to-r from-blue-50 to-purple-50">
@@ -191,9 +381,48 @@ export default function MultiAngleDeliveryValidationApp() {
 
           {/* Analysis Button */}
           <div className="text-center mb-8">
+            {missingShots.length > 0 && (
+              <div className="mb-4 text-sm text-yellow-800 space-y-1">
+                {missingShots.map(({ side, slots }) => (
+                  <p key={side}>
+                    {side} images are missing: {slots.map((slot) => slot.label).join(", ")}
+                  </p>
+                ))}
+                <p className="text-xs text-yellow-700">
+                  Add these shots for a complete {template.label.toLowerCase()} check, or analyze without them.
+                </p>
+              </div>
+            )}
+            {pairingEmpty && (
+              <p className="mb-4 text-sm text-red-700">
+                No image pairs left to compare - pair at least one packaging image with a delivery image above.
+              </p>
+            )}
+            {blockedImageCount > 0 && (
+              <div className="flex items-center justify-center gap-2 mb-4 text-sm text-red-700">
+                <Checkbox
+                  id="quality-override"
+                  checked={qualityOverride}
+                  onCheckedChange={(checked) => setQualityOverride(checked === true)}
+                  disabled={isAnalyzing}
+                />
+                <Label htmlFor="quality-override" className="font-normal">
+                  {blockedImageCount} image{blockedImageCount !== 1 ? "s" : ""} failed the quality check - analyze
+                  anyway
+                </Label>
+              </div>
+            )}
             <Button
               onClick={handleAnalysis}
-              disabled={packagingImages.length === 0 || deliveryImages.length === 0 || isAnalyzing}
+              disabled={
+                packagingImages.length === 0 ||
+                deliveryImages.length === 0 ||
+                isClassifyingAngles ||
+                pairingEmpty ||
+                qualityPending ||
+                qualityBlocked ||
+                isAnalyzing
+              }
               className="bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700 text-white px-8 py-3 text-lg"
               size="lg"
             >
@@ -202,6 +431,16 @@ export default function MultiAngleDeliveryValidationApp() {
                   <Eye className="w-5 h-5 mr-2 animate-pulse" />
                   Analyzing {totalImages} Images...
                 </>
+              ) : isClassifyingAngles ? (
+                <>
+                  <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                  Classifying Angles...
+                </>
+              ) : qualityPending ? (
+                <>
+                  <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                  Checking Image Quality...
+                </>
               ) : (
                 <>
                   <Zap className="w-5 h-5 mr-2" />
@@ -219,13 +458,17 @@ export default function MultiAngleDeliveryValidationApp() {
                   Processing {totalImages} images with Google Gemini Pro Vision...
                 </span>
               </div>
-              <Progress value={analysisProgress} className="w-full max-w-md mx-auto" />
+              <div className="flex items-center justify-center gap-3 max-w-lg mx-auto">
+                <Progress value={analysisProgress} className="w-full max-w-md" />
+                <Button onClick={handleCancel} variant="outline" size="sm" className="flex-shrink-0">
+                  <X className="w-4 h-4 mr-1" />
+                  Cancel
+                </Button>
+              </div>
               <div className="text-center mt-2 text-xs text-gray-500">
-                {analysisProgress < 30 && "Analyzing product identification..."}
-                {analysisProgress >= 30 && analysisProgress < 60 && "Comparing angles and conditions..."}
-                {analysisProgress >= 60 && analysisProgress < 90 && "Generating comprehensive report..."}
-                {analysisProgress >= 90 && "Finalizing results..."}
+                {progressMessage} ({analysisProgress}%)
               </div>
+              {retryMessage && <div className="text-center mt-1 text-xs text-amber-600">{retryMessage}</div>}
             </div>
           )}
 
@@ -237,7 +480,14 @@ export default function MultiAngleDeliveryValidationApp() {
           )}
 
           {/* Results */}
-          {results && <MultiImageResults results={results} />}
+          {results && (
+            <MultiImageResults
+              results={results}
+              isCrossChecking={isCrossChecking}
+              packagingImages={analyzedImages.packaging}
+              deliveryImages={analyzedImages.delivery}
+            />
+          )}
 
           {/* Footer */}
           <div className="text-center mt-12 text-sm text-gray-500">
@@ -0,0 +1,214 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useState } from "react"
+import { ArrowLeftRight, GripVertical, Loader2, Wand2 } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { moveDeliveryImage, type AngleClassificationResult } from "@/lib/angle-pairing"
+import { useObjectUrls } from "@/hooks/use-object-urls"
+
+// Below this the two images of a pair probably show different angles
+const LOW_AGREEMENT = 0.3
+
+interface AnglePairingEditorProps {
+  packagingImages: File[]
+  deliveryImages: File[]
+  value: AngleClassificationResult | null // pairs as confirmed so far; null until classified
+  onChange: (value: AngleClassificationResult | null) => void
+  onDetect: () => void // classification runs on its own as images change; this re-runs it
+  isDetecting?: boolean
+  error?: string | null
+  disabled?: boolean
+}
+
+export default function AnglePairingEditor({
+  packagingImages,
+  deliveryImages,
+  value,
+  onChange,
+  onDetect,
+  isDetecting,
+  error,
+  disabled,
+}: AnglePairingEditorProps) {
+  const packagingUrls = useObjectUrls(packagingImages)
+  const deliveryUrls = useObjectUrls(deliveryImages)
+  const [dropTarget, setDropTarget] = useState<number | "unpaired" | null>(null)
+  // Tap to pick a delivery image, then tap where it goes: drag and drop doesn't fire on touch screens
+  const [pickedDelivery, setPickedDelivery] = useState<number | null>(null)
+
+  useEffect(() => {
+    setPickedDelivery(null)
+  }, [deliveryImages])
+
+  const handleDrop = (event: React.DragEvent, packagingIndex: number | null) => {
+    event.preventDefault()
+    setDropTarget(null)
+    moveDelivery(Number(event.dataTransfer.getData("text/plain")), packagingIndex)
+  }
+
+  const handleTap = (packagingIndex: number | null) => {
+    if (disabled || pickedDelivery === null) return
+    setPickedDelivery(null)
+    moveDelivery(pickedDelivery, packagingIndex)
+  }
+
+  const moveDelivery = (deliveryIndex: number, packagingIndex: number | null) => {
+    if (!value || !Number.isInteger(deliveryIndex)) return
+
+    if (packagingIndex !== null) {
+      onChange({ ...value, pairs: moveDeliveryImage(value, value.pairs, packagingIndex, deliveryIndex) })
+    } else {
+      // Moved to the unpaired tray: take it out of its pair
+      const row = value.pairs.find((pair) => pair.deliveryIndex === deliveryIndex)
+      if (row) onChange({ ...value, pairs: moveDeliveryImage(value, value.pairs, row.packagingIndex, null) })
+    }
+  }
+
+  const allowDrop = (target: number | "unpaired") => (event: React.DragEvent) => {
+    if (disabled) return
+    event.preventDefault()
+    setDropTarget(target)
+  }
+
+  // A tap on another image while one is picked goes through to its row, to move the picked one there
+  const deliveryThumbnail = (deliveryIndex: number, inTray = false) => (
+    <button
+      type="button"
+      draggable={!disabled}
+      disabled={disabled}
+      onDragStart={(event) => event.dataTransfer.setData("text/plain", String(deliveryIndex))}
+      onClick={(event) => {
+        if (pickedDelivery !== null && pickedDelivery !== deliveryIndex && !inTray) return
+        event.stopPropagation()
+        setPickedDelivery(pickedDelivery === deliveryIndex ? null : deliveryIndex)
+      }}
+      aria-pressed={pickedDelivery === deliveryIndex}
+      className={`relative block w-24 rounded ${disabled ? "" : "cursor-grab active:cursor-grabbing"} ${
+        pickedDelivery === deliveryIndex ? "ring-2 ring-purple-500" : ""
+      }`}
+      title="Drag onto another packaging image to re-pair, or tap it and then tap where it goes"
+    >
+      <img
+        src={deliveryUrls[deliveryIndex] || "/placeholder.svg"}
+        alt={`Delivery image ${deliveryIndex + 1}`}
+        className="w-24 h-20 object-cover rounded border"
+      />
+      <GripVertical className="absolute top-1 right-1 w-3 h-3 text-white drop-shadow" />
+      <Badge variant="secondary" className="absolute bottom-1 left-1 text-[10px] px-1 py-0 capitalize">
+        D{deliveryIndex + 1} · {value?.delivery[deliveryIndex]?.angle}
+      </Badge>
+    </button>
+  )
+
+  // A pairing is stale once the images change; the page clears it, this only guards the render
+  const current =
+    value && value.packaging.length === packagingImages.length && value.delivery.length === deliveryImages.length
+      ? value
+      : null
+  const unpaired = current
+    ? deliveryImages
+        .map((_, index) => index)
+        .filter((index) => !current.pairs.some((pair) => pair.deliveryIndex === index))
+    : []
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ArrowLeftRight className="w-5 h-5" />
+          Angle Pairing
+          <Button
+            onClick={onDetect}
+            disabled={disabled || isDetecting}
+            variant="outline"
+            size="sm"
+            className="ml-auto"
+          >
+            {isDetecting ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Wand2 className="w-4 h-4 mr-1" />}
+            {current ? "Detect again" : "Detect angles"}
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && <p className="text-sm text-red-700">{error}</p>}
+        {!current ? (
+          <p className="text-sm text-gray-600">
+            {isDetecting
+              ? "Detecting the angle of each image..."
+              : "Detect the angle of each image to pair packaging and delivery shots before the analysis. Without a pairing the model matches the images itself."}
+          </p>
+        ) : (
+          <>
+            <p className="text-xs text-gray-500">
+              Drag a delivery image onto another packaging image to fix a pair, or tap it and then tap where it goes.
+              The analysis compares exactly these pairs.
+            </p>
+            {packagingImages.map((_, packagingIndex) => {
+              const pair = current.pairs.find((candidate) => candidate.packagingIndex === packagingIndex)
+              return (
+                <div key={packagingIndex} className="flex items-center gap-3">
+                  <div className="relative w-24">
+                    <img
+                      src={packagingUrls[packagingIndex] || "/placeholder.svg"}
+                      alt={`Packaging image ${packagingIndex + 1}`}
+                      className="w-24 h-20 object-cover rounded border"
+                    />
+                    <Badge variant="secondary" className="absolute bottom-1 left-1 text-[10px] px-1 py-0 capitalize">
+                      P{packagingIndex + 1} · {current.packaging[packagingIndex].angle}
+                    </Badge>
+                  </div>
+                  <ArrowLeftRight className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                  <div
+                    onDragOver={allowDrop(packagingIndex)}
+                    onDragLeave={() => setDropTarget(null)}
+                    onDrop={(event) => handleDrop(event, packagingIndex)}
+                    onClick={() => handleTap(packagingIndex)}
+                    className={`min-w-24 min-h-20 rounded border-2 border-dashed flex items-center justify-center ${
+                      dropTarget === packagingIndex
+                        ? "border-purple-400 bg-purple-50"
+                        : pickedDelivery !== null
+                          ? "border-purple-200 cursor-pointer"
+                          : "border-transparent"
+                    }`}
+                  >
+                    {pair ? (
+                      deliveryThumbnail(pair.deliveryIndex)
+                    ) : (
+                      <span className="text-xs text-gray-400 px-2">Not compared</span>
+                    )}
+                  </div>
+                  {pair && (
+                    <div className="text-xs space-y-1">
+                      {pair.manual && <Badge variant="outline">Paired by you</Badge>}
+                      {pair.agreement < LOW_AGREEMENT && (
+                        <Badge className="bg-yellow-100 text-yellow-800">Angles may differ</Badge>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+            <div
+              onDragOver={allowDrop("unpaired")}
+              onDragLeave={() => setDropTarget(null)}
+              onDrop={(event) => handleDrop(event, null)}
+              onClick={() => handleTap(null)}
+              className={`rounded border-2 border-dashed p-2 flex flex-wrap items-center gap-2 ${
+                dropTarget === "unpaired" ? "border-purple-400 bg-purple-50" : "border-gray-200"
+              }`}
+            >
+              <span className="text-xs text-gray-500">Unpaired delivery images:</span>
+              {unpaired.length === 0 && <span className="text-xs text-gray-400">none - move one here to unpair it</span>}
+              {unpaired.map((deliveryIndex) => (
+                <div key={deliveryIndex}>{deliveryThumbnail(deliveryIndex, true)}</div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,56 @@
+"use client"
+
+import type { Severity } from "@/lib/analysis-schemas"
+import type { NormalizedBox } from "@/lib/differences"
+
+export interface ImageAnnotation {
+  id: string // shared with the difference it belongs to, for hover linking
+  box: NormalizedBox
+  severity: Severity
+  label: string
+}
+
+interface AnnotatedImageProps {
+  src?: string
+  alt: string
+  annotations: ImageAnnotation[]
+  activeId: string | null
+  onActiveChange: (id: string | null) => void
+}
+
+const SEVERITY_BOX_STYLES: Record<Severity, string> = {
+  high: "border-red-500 bg-red-500/20",
+  medium: "border-orange-500 bg-orange-500/15",
+  low: "border-yellow-400 bg-yellow-400/10",
+}
+
+export default function AnnotatedImage({ src, alt, annotations, activeId, onActiveChange }: AnnotatedImageProps) {
+  if (!src) return null
+
+  return (
+    <div className="relative rounded-lg border overflow-hidden bg-gray-50">
+      <img src={src} alt={alt} className="block w-full h-auto" />
+      {annotations.map((annotation, index) => {
+        const active = activeId === annotation.id
+        const dimmed = activeId !== null && !active
+        return (
+          <div
+            key={`${annotation.id}-${index}`}
+            title={annotation.label}
+            onMouseEnter={() => onActiveChange(annotation.id)}
+            onMouseLeave={() => onActiveChange(null)}
+            className={`absolute border-2 rounded-sm transition-opacity ${SEVERITY_BOX_STYLES[annotation.severity]} ${
+              active ? "ring-2 ring-white shadow-lg" : ""
+            } ${dimmed ? "opacity-30" : "opacity-100"}`}
+            style={{
+              left: `${annotation.box.x * 100}%`,
+              top: `${annotation.box.y * 100}%`,
+              width: `${annotation.box.width * 100}%`,
+              height: `${annotation.box.height * 100}%`,
+            }}
+          />
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,224 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Camera, CheckCircle, AlertTriangle, XCircle, Loader2, RotateCcw } from "lucide-react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import type { AngleGuide, AngleSlot } from "@/lib/angle-templates"
+import type { ImageQualityReport } from "@/lib/image-quality"
+import { assessImageFile } from "@/lib/image-quality-scanner"
+
+interface CameraCaptureProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  slots: AngleSlot[] // shots still needed, in order; empty for free capture
+  maxShots: number // room left in the uploader
+  onCapture: (file: File) => void
+}
+
+// Outline sizes as a share of the preview, large enough to pass the framing check
+const GUIDE_CLASSES: Record<AngleGuide, string> = {
+  portrait: "h-[80%] aspect-[3/4]",
+  landscape: "w-[80%] aspect-[4/3]",
+  square: "h-[75%] aspect-square",
+}
+
+const FEEDBACK_STYLES = {
+  pass: { icon: CheckCircle, className: "text-green-700" },
+  warn: { icon: AlertTriangle, className: "text-yellow-700" },
+  fail: { icon: XCircle, className: "text-red-700" },
+}
+
+// Ask for a frame that clears the resolution check on the short side
+const VIDEO_CONSTRAINTS: MediaTrackConstraints = {
+  facingMode: { ideal: "environment" },
+  width: { ideal: 1920 },
+  height: { ideal: 1080 },
+}
+
+export function isCameraSupported() {
+  return typeof navigator !== "undefined" && !!navigator.mediaDevices?.getUserMedia
+}
+
+function captureFrame(video: HTMLVideoElement, name: string): Promise<File> {
+  const canvas = document.createElement("canvas")
+  canvas.width = video.videoWidth
+  canvas.height = video.videoHeight
+  canvas.getContext("2d")!.drawImage(video, 0, 0)
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(new File([blob], name, { type: "image/jpeg" })) : reject(new Error("Could not capture a frame")),
+      "image/jpeg",
+      0.92,
+    ),
+  )
+}
+
+// In-app capture for couriers: a live preview with the outline of the next required shot, a
+// shutter, and the local quality check on every frame. A good frame is added straight away
+// and the next shot comes up; a failed one can be retaken or kept.
+export default function CameraCapture({ open, onOpenChange, slots, maxShots, onCapture }: CameraCaptureProps) {
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const [cameraError, setCameraError] = useState<string | null>(null)
+  const [isReady, setIsReady] = useState(false)
+  const [isCapturing, setIsCapturing] = useState(false)
+  const [shotCount, setShotCount] = useState(0)
+  // A failed frame waiting for Retake or Keep
+  const [pending, setPending] = useState<{ file: File; report: ImageQualityReport } | null>(null)
+  const [lastShot, setLastShot] = useState<{ label: string; report: ImageQualityReport | null } | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+    let stream: MediaStream | null = null
+    let cancelled = false
+    setCameraError(null)
+    setIsReady(false)
+    setShotCount(0)
+    setPending(null)
+    setLastShot(null)
+
+    navigator.mediaDevices
+      .getUserMedia({ video: VIDEO_CONSTRAINTS, audio: false })
+      .then((mediaStream) => {
+        if (cancelled) {
+          mediaStream.getTracks().forEach((track) => track.stop())
+          return
+        }
+        stream = mediaStream
+        if (videoRef.current) videoRef.current.srcObject = mediaStream
+      })
+      .catch((error) => {
+        if (cancelled) return
+        setCameraError(
+          error instanceof DOMException && error.name === "NotAllowedError"
+            ? "Camera access was denied - allow it in the browser settings, or upload photos instead"
+            : "No camera is available - upload photos instead",
+        )
+      })
+
+    return () => {
+      cancelled = true
+      stream?.getTracks().forEach((track) => track.stop())
+    }
+  }, [open])
+
+  const slot: AngleSlot | undefined = slots[shotCount]
+  const done = shotCount >= maxShots || (slots.length > 0 && shotCount >= slots.length)
+  const shotLabel = slot?.label ?? `Photo ${shotCount + 1}`
+
+  const accept = (file: File, report: ImageQualityReport | null) => {
+    onCapture(file)
+    setLastShot({ label: shotLabel, report })
+    setPending(null)
+    setShotCount((count) => count + 1)
+  }
+
+  const handleShutter = async () => {
+    const video = videoRef.current
+    if (!video || !isReady || isCapturing || done) return
+    setIsCapturing(true)
+    try {
+      const file = await captureFrame(video, `capture-${slot?.id ?? shotCount + 1}-${Date.now()}.jpg`)
+      const report = await assessImageFile(file)
+      if (report?.status === "fail") setPending({ file, report })
+      else accept(file, report)
+    } catch (error) {
+      setCameraError(error instanceof Error ? error.message : "Could not capture a frame")
+    } finally {
+      setIsCapturing(false)
+    }
+  }
+
+  const feedback = pending?.report ?? lastShot?.report
+  const FeedbackIcon = feedback && FEEDBACK_STYLES[feedback.status].icon
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Camera className="w-5 h-5" />
+            {done ? "All shots taken" : shotLabel}
+            {slots.length > 0 && (
+              <Badge variant="outline" className="ml-2">
+                {Math.min(shotCount + 1, slots.length)}/{slots.length}
+              </Badge>
+            )}
+          </DialogTitle>
+          <DialogDescription>
+            {done
+              ? "The photos have been added. Close the camera to review them."
+              : slot
+                ? `Fit ${slot.description} inside the outline.`
+                : "Fit the product inside the outline."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {cameraError ? (
+          <p className="text-sm text-red-700">{cameraError}</p>
+        ) : (
+          <div className="relative w-full aspect-[4/3] bg-black rounded-lg overflow-hidden">
+            <video
+              ref={videoRef}
+              autoPlay
+              playsInline
+              muted
+              onLoadedMetadata={() => setIsReady(true)}
+              className="w-full h-full object-cover"
+            />
+            {!done && isReady && (
+              <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                <div
+                  className={`${GUIDE_CLASSES[slot?.guide ?? "square"]} max-w-[90%] max-h-[90%] rounded-xl border-2 border-dashed border-white shadow-[0_0_0_9999px_rgba(0,0,0,0.35)]`}
+                />
+              </div>
+            )}
+            {!isReady && (
+              <div className="absolute inset-0 flex items-center justify-center text-white">
+                <Loader2 className="w-6 h-6 animate-spin" />
+              </div>
+            )}
+          </div>
+        )}
+
+        {feedback && FeedbackIcon && (
+          <div className={`flex items-start gap-2 text-sm ${FEEDBACK_STYLES[feedback.status].className}`}>
+            <FeedbackIcon className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <span>
+              {pending ? shotLabel : lastShot?.label}:{" "}
+              {feedback.reasons.length > 0 ? feedback.reasons.join("; ") : "Good photo"}
+            </span>
+          </div>
+        )}
+
+        <div className="flex items-center justify-center gap-3">
+          {pending ? (
+            <>
+              <Button onClick={() => setPending(null)} variant="outline">
+                <RotateCcw className="w-4 h-4 mr-1" />
+                Retake
+              </Button>
+              <Button onClick={() => accept(pending.file, pending.report)} variant="outline">
+                Keep anyway
+              </Button>
+            </>
+          ) : done ? (
+            <Button onClick={() => onOpenChange(false)}>Done</Button>
+          ) : (
+            <Button
+              onClick={handleShutter}
+              disabled={!isReady || isCapturing || !!cameraError}
+              size="lg"
+              className="rounded-full w-16 h-16 p-0 bg-gradient-to-r from-purple-600 to-blue-600"
+              aria-label={`Take the ${shotLabel} photo`}
+            >
+              {isCapturing ? <Loader2 className="w-6 h-6 animate-spin" /> : <Camera className="w-6 h-6" />}
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,9 +1,15 @@
 "use client"
 
+import { useMemo, useState } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Progress } from "@/components/ui/progress"
 import { CheckCircle, XCircle, AlertTriangle, Package, Truck, Brain, TrendingUp } from "lucide-react"
+import type { Severity } from "@/lib/analysis-schemas"
+import { SEVERITIES, formatDifference, type Difference, type DifferenceRegion } from "@/lib/differences"
+import { useObjectUrls } from "@/hooks/use-object-urls"
+import AnnotatedImage, { type ImageAnnotation } from "@/components/annotated-image"
+import DifferenceList, { SeverityFilter } from "@/components/difference-list"
 
 interface ComparisonResultsProps {
   results: {
@@ -11,15 +17,25 @@ interface ComparisonResultsProps {
     deliveryProduct: string
     areProductsSame: boolean
     similarityPercentage?: number
-    differences: string[]
+    differences: Difference[]
     summary: string
     visualDifferences?: string
     confidenceScore: number
     technicalAnalysis?: any
   }
+  packagingImage?: File
+  deliveryImage?: File
 }
 
-export default function ComparisonResults({ results }: ComparisonResultsProps) {
+export default function ComparisonResults({ results, packagingImage, deliveryImage }: ComparisonResultsProps) {
+  const [activeDifference, setActiveDifference] = useState<string | null>(null)
+  const [severities, setSeverities] = useState<Severity[]>(SEVERITIES)
+  const images = useMemo(
+    () => (packagingImage && deliveryImage ? [packagingImage, deliveryImage] : []),
+    [packagingImage, deliveryImage],
+  )
+  const [packagingUrl, deliveryUrl] = useObjectUrls(images)
+
   const {
     packagingProduct,
     deliveryProduct,
@@ -32,6 +48,21 @@ export default function ComparisonResults({ results }: ComparisonResultsProps) {
     technicalAnalysis,
   } = results
 
+  const annotationsFor = (side: DifferenceRegion["side"]): ImageAnnotation[] =>
+    differences.flatMap((difference, index) =>
+      severities.includes(difference.severity)
+        ? difference.regions
+            .filter((region) => region.side === side)
+            .map((region) => ({
+              id: String(index),
+              box: region.box,
+              severity: difference.severity,
+              label: formatDifference(difference),
+            }))
+        : [],
+    )
+  const hasRegions = differences.some((difference) => difference.regions.length > 0)
+
   const getStatusColor = () => {
     if (areProductsSame && (similarityPercentage || 0) > 90) return "text-green-600"
     if (areProductsSame && (similarityPercentage || 0) > 70) return "text-yellow-600"
@@ -158,20 +189,36 @@ export default function ComparisonResults({ results }: ComparisonResultsProps) {
         <Card>
           <CardHeader>
             <CardTitle className="text-lg">Identified Differences</CardTitle>
+            {differences.length > 0 && (
+              <SeverityFilter differences={differences} selected={severities} onChange={setSeverities} />
+            )}
           </CardHeader>
           <CardContent>
-            {differences.length > 0 ? (
-              <ul className="space-y-2">
-                {differences.map((difference, index) => (
-                  <li key={index} className="flex items-start gap-2">
-                    <div className="w-2 h-2 bg-red-500 rounded-full mt-2 flex-shrink-0" />
-                    <span className="text-sm text-gray-700">{difference}</span>
-                  </li>
-                ))}
-              </ul>
-            ) : (
-              <p className="text-sm text-gray-500 italic">No significant differences detected</p>
+            {hasRegions && packagingUrl && deliveryUrl && (
+              <div className="grid grid-cols-2 gap-3 mb-4">
+                <AnnotatedImage
+                  src={packagingUrl}
+                  alt="Packaging image"
+                  annotations={annotationsFor("packaging")}
+                  activeId={activeDifference}
+                  onActiveChange={setActiveDifference}
+                />
+                <AnnotatedImage
+                  src={deliveryUrl}
+                  alt="Delivery image"
+                  annotations={annotationsFor("delivery")}
+                  activeId={activeDifference}
+                  onActiveChange={setActiveDifference}
+                />
+              </div>
             )}
+            <DifferenceList
+              differences={differences}
+              severities={severities}
+              activeId={activeDifference}
+              onActiveChange={setActiveDifference}
+              emptyText="No significant differences detected"
+            />
           </CardContent>
         </Card>
 
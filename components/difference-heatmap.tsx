@@ -0,0 +1,49 @@
+"use client"
+
+import { useId, useState } from "react"
+import { Slider } from "@/components/ui/slider"
+import { Label } from "@/components/ui/label"
+
+interface DifferenceHeatmapProps {
+  src?: string // the delivery image the heatmap was computed for
+  heatmap: string
+  alt: string
+}
+
+// The pixel comparison's difference heatmap over the delivery photo. The heatmap is square and
+// stretched to the photo, the same way both images were resized for the comparison.
+export default function DifferenceHeatmap({ src, heatmap, alt }: DifferenceHeatmapProps) {
+  const [opacity, setOpacity] = useState(60)
+  const sliderId = useId()
+  if (!src) return null
+
+  return (
+    <div className="space-y-2">
+      <div className="relative rounded-lg border overflow-hidden bg-gray-50">
+        <img src={src} alt={alt} className="block w-full h-auto" />
+        <img
+          src={heatmap}
+          alt=""
+          aria-hidden
+          className="absolute inset-0 w-full h-full pointer-events-none"
+          style={{ opacity: opacity / 100 }}
+        />
+      </div>
+      <div className="flex items-center gap-3">
+        <Label htmlFor={sliderId} className="text-xs text-gray-600 whitespace-nowrap">
+          Heatmap {opacity}%
+        </Label>
+        <Slider
+          id={sliderId}
+          value={[opacity]}
+          onValueChange={([value]) => setOpacity(value)}
+          min={0}
+          max={100}
+          step={5}
+          aria-label="Heatmap opacity"
+        />
+      </div>
+      <p className="text-xs text-gray-500">Blue to red marks how much each area differs from the packaging photo.</p>
+    </div>
+  )
+}
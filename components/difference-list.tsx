@@ -0,0 +1,101 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import type { Severity } from "@/lib/analysis-schemas"
+import { SEVERITIES, countBySeverity, formatCategory, sortBySeverity, type Difference } from "@/lib/differences"
+
+export const SEVERITY_BADGE_STYLES: Record<Severity, string> = {
+  high: "bg-red-100 text-red-800",
+  medium: "bg-orange-100 text-orange-800",
+  low: "bg-yellow-100 text-yellow-800",
+}
+
+interface SeverityFilterProps {
+  differences: Difference[] // counted per severity
+  selected: Severity[]
+  onChange: (selected: Severity[]) => void
+}
+
+export function SeverityFilter({ differences, selected, onChange }: SeverityFilterProps) {
+  const counts = countBySeverity(differences)
+
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      <span className="text-gray-500">Show:</span>
+      {SEVERITIES.map((severity) => {
+        const active = selected.includes(severity)
+        return (
+          <button
+            key={severity}
+            type="button"
+            aria-pressed={active}
+            onClick={() =>
+              onChange(active ? selected.filter((value) => value !== severity) : [...selected, severity])
+            }
+            className={`rounded-full border px-2 py-0.5 capitalize transition-opacity ${
+              SEVERITY_BADGE_STYLES[severity]
+            } ${active ? "opacity-100" : "opacity-40"}`}
+          >
+            {severity} {counts[severity]}
+          </button>
+        )
+      })}
+    </div>
+  )
+}
+
+interface DifferenceListProps {
+  differences: Difference[]
+  severities: readonly Severity[] // the ones to show
+  idPrefix?: string // ids are `${idPrefix}${index}`, index into differences before sorting
+  activeId?: string | null
+  onActiveChange?: (id: string | null) => void
+  emptyText: string
+}
+
+// Most severe first. Hovering an entry highlights its regions in the annotated images.
+export default function DifferenceList({
+  differences,
+  severities,
+  idPrefix = "",
+  activeId = null,
+  onActiveChange,
+  emptyText,
+}: DifferenceListProps) {
+  if (differences.length === 0) return <p className="text-sm text-gray-500 italic">{emptyText}</p>
+
+  const shown = sortBySeverity(
+    differences
+      .map((difference, index) => ({ ...difference, id: `${idPrefix}${index}` }))
+      .filter((difference) => severities.includes(difference.severity)),
+  )
+  if (shown.length === 0) {
+    return (
+      <p className="text-xs text-gray-500 italic">
+        {differences.length} difference{differences.length !== 1 ? "s" : ""} hidden by the severity filter
+      </p>
+    )
+  }
+
+  return (
+    <ul className="space-y-1">
+      {shown.map((difference) => (
+        <li
+          key={difference.id}
+          onMouseEnter={() => onActiveChange?.(difference.id)}
+          onMouseLeave={() => onActiveChange?.(null)}
+          className={`flex items-start gap-2 rounded px-1 py-0.5 text-sm ${
+            activeId === difference.id ? "bg-red-50 text-gray-900" : "text-gray-700"
+          }`}
+        >
+          <Badge className={`${SEVERITY_BADGE_STYLES[difference.severity]} capitalize text-[10px] px-1.5 py-0 mt-0.5`}>
+            {difference.severity}
+          </Badge>
+          <span>
+            <span className="font-medium">{formatCategory(difference.category)}:</span> {difference.description}
+          </span>
+        </li>
+      ))}
+    </ul>
+  )
+}
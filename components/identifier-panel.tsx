@@ -0,0 +1,147 @@
+"use client"
+
+import { ScanBarcode, Cpu } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import type { BarcodeCheck } from "@/lib/barcode-check"
+import { IDENTIFIER_LABELS, type IdentifierCheck, type IdentifierStatus } from "@/lib/identifiers"
+
+interface IdentifierPanelProps {
+  check: IdentifierCheck
+  barcodeCheck?: BarcodeCheck // decoded on-device, independently of the model
+}
+
+const BARCODE_FORMAT_LABELS = { ean13: "EAN-13", upca: "UPC-A", code128: "Code 128", qr: "QR" }
+
+const formatImages = (indices: number[]) => (indices.length > 0 ? indices.map((index) => `#${index + 1}`).join(", ") : "-")
+
+const STATUS_STYLES: Record<IdentifierStatus, { label: string; className: string }> = {
+  match: { label: "Exact match", className: "bg-green-100 text-green-800" },
+  partial: { label: "Partial match", className: "bg-yellow-100 text-yellow-800" },
+  mismatch: { label: "Mismatch", className: "bg-red-100 text-red-800" },
+  packaging_only: { label: "Packaging only", className: "bg-gray-100 text-gray-700" },
+  delivery_only: { label: "Delivery only", className: "bg-gray-100 text-gray-700" },
+}
+
+export default function IdentifierPanel({ check, barcodeCheck }: IdentifierPanelProps) {
+  const { comparisons } = check
+  const mismatch = check.mismatch || barcodeCheck?.mismatch
+  const unreadable = [
+    ...check.packaging.map((identifier) => ({ side: "Packaging", ...identifier })),
+    ...check.delivery.map((identifier) => ({ side: "Delivery", ...identifier })),
+  ].filter((identifier) => identifier.checksumValid === false)
+
+  return (
+    <Card className={mismatch ? "border-red-200" : undefined}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ScanBarcode className="w-5 h-5" />
+          Unit Identifiers
+          {mismatch && (
+            <Badge variant="destructive" className="ml-2">
+              Different unit delivered
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {comparisons.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            No serial number, IMEI, barcode or batch code could be read. Photograph the product labels to verify the
+            exact unit.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {comparisons.map((comparison) => (
+              <div key={comparison.type} className="border rounded-lg p-3">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="font-medium text-sm">{IDENTIFIER_LABELS[comparison.type]}</span>
+                  <Badge className={STATUS_STYLES[comparison.status].className}>
+                    {STATUS_STYLES[comparison.status].label}
+                  </Badge>
+                </div>
+                <div className="grid grid-cols-2 gap-4 text-xs font-mono">
+                  <div>
+                    <div className="text-gray-500 font-sans mb-1">Packaging</div>
+                    {comparison.packaging.map((value) => (
+                      <div key={value}>{value}</div>
+                    ))}
+                    {comparison.packaging.length === 0 && "-"}
+                  </div>
+                  <div>
+                    <div className="text-gray-500 font-sans mb-1">Delivery</div>
+                    {comparison.delivery.map((value) => (
+                      <div key={value} className={comparison.status === "mismatch" ? "text-red-700" : undefined}>
+                        {value}
+                      </div>
+                    ))}
+                    {comparison.delivery.length === 0 && "-"}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {barcodeCheck && (
+          <div className="mt-4 space-y-2">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <Cpu className="w-4 h-4 text-purple-600" />
+              Decoded on this device
+              {barcodeCheck.manifest && (
+                <Badge
+                  className={
+                    barcodeCheck.manifest === "match"
+                      ? "bg-green-100 text-green-800"
+                      : barcodeCheck.manifest === "mismatch"
+                        ? "bg-red-100 text-red-800"
+                        : "bg-gray-100 text-gray-700"
+                  }
+                >
+                  {barcodeCheck.manifest === "match"
+                    ? "SKU found"
+                    : barcodeCheck.manifest === "mismatch"
+                      ? "SKU barcode differs"
+                      : "SKU not scanned"}
+                </Badge>
+              )}
+            </div>
+            {barcodeCheck.comparisons.length === 0 ? (
+              <p className="text-xs text-gray-600">No EAN, UPC, Code 128 or QR symbol could be decoded locally.</p>
+            ) : (
+              <div className="space-y-1">
+                {barcodeCheck.comparisons.map((comparison) => (
+                  <div
+                    key={`${comparison.format}:${comparison.value}`}
+                    className="grid grid-cols-[5rem_1fr_auto] gap-2 items-center text-xs border rounded px-2 py-1"
+                  >
+                    <span className="text-gray-500">{BARCODE_FORMAT_LABELS[comparison.format]}</span>
+                    <span className="font-mono truncate" title={comparison.value}>
+                      {comparison.value}
+                    </span>
+                    <span className="text-gray-500">
+                      P {formatImages(comparison.packagingImages)} · D {formatImages(comparison.deliveryImages)}
+                      {comparison.readByModel && <span className="text-green-700"> · model agrees</span>}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {unreadable.length > 0 && (
+          <div className="mt-4 text-xs text-amber-700 space-y-1">
+            <div className="font-medium">Failed check digit (likely misread, not compared):</div>
+            {unreadable.map((identifier, index) => (
+              <div key={index}>
+                {identifier.side} {IDENTIFIER_LABELS[identifier.type]} <span className="font-mono">{identifier.value}</span>{" "}
+                ({identifier.location})
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
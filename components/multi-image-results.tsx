@@ -1,55 +1,112 @@
 "use client"
 
+import { useState } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
 import { Progress } from "@/components/ui/progress"
-import { CheckCircle, XCircle, AlertTriangle, Package, Brain, TrendingUp, Eye, Camera, Grid3X3 } from "lucide-react"
+import {
+  CheckCircle,
+  XCircle,
+  AlertTriangle,
+  Package,
+  Brain,
+  TrendingUp,
+  Eye,
+  Camera,
+  Grid3X3,
+  History,
+  ClipboardList,
+  Download,
+  Loader2,
+} from "lucide-react"
+import type { Severity } from "@/lib/analysis-schemas"
+import type { AngleAnalysis, MultiImageAnalysisResult } from "@/lib/multi-image-gemini-service"
+import { SEVERITIES, formatDifference, type DifferenceRegion } from "@/lib/differences"
+import { pixelMetricName } from "@/lib/pixel-comparison"
+import { formatProductIdentity } from "@/lib/product-identity"
+import { createValidationReport, downloadFile, toDifferencesCsv } from "@/lib/validation-report"
+import { useObjectUrls } from "@/hooks/use-object-urls"
+import IdentifierPanel from "@/components/identifier-panel"
+import AnnotatedImage, { type ImageAnnotation } from "@/components/annotated-image"
+import DifferenceHeatmap from "@/components/difference-heatmap"
+import DifferenceList, { SeverityFilter } from "@/components/difference-list"
 
 interface MultiImageResultsProps {
-  results: {
-    packagingProduct: string
-    deliveryProduct: string
-    areProductsSame: boolean
-    overallSimilarityPercentage: number
-    angleAnalysis: Array<{
-      angle: string
-      packagingImageIndex: number
-      deliveryImageIndex: number
-      similarityPercentage: number
-      differences: string[]
-      matchQuality: "excellent" | "good" | "fair" | "poor"
-    }>
-    comprehensiveDifferences: string[]
-    detailedSummary: string
-    confidenceScore: number
-    technicalAnalysis: any
-    recommendations: string[]
-  }
+  results: MultiImageAnalysisResult
+  isCrossChecking?: boolean // pixel comparisons are still being added
+  packagingImages?: File[] // the images that were analyzed, for drawing difference regions
+  deliveryImages?: File[]
+}
+
+const NO_IMAGES: File[] = []
+
+// Boxes for one image of an angle pair; the id links each box to its difference text
+function getAnnotations(
+  angle: AngleAnalysis,
+  angleIndex: number,
+  side: DifferenceRegion["side"],
+  imageIndex: number,
+  severities: readonly Severity[],
+): ImageAnnotation[] {
+  return angle.differences.flatMap((difference, diffIndex) =>
+    severities.includes(difference.severity)
+      ? difference.regions
+          .filter((region) => region.side === side && region.imageIndex === imageIndex)
+          .map((region) => ({
+            id: `${angleIndex}-${diffIndex}`,
+            box: region.box,
+            severity: difference.severity,
+            label: formatDifference(difference),
+          }))
+      : [],
+  )
 }
 
-export default function MultiImageResults({ results }: MultiImageResultsProps) {
+export default function MultiImageResults({
+  results,
+  isCrossChecking,
+  packagingImages = NO_IMAGES,
+  deliveryImages = NO_IMAGES,
+}: MultiImageResultsProps) {
+  const packagingUrls = useObjectUrls(packagingImages)
+  const deliveryUrls = useObjectUrls(deliveryImages)
+  const [activeDifference, setActiveDifference] = useState<string | null>(null)
+  const [severities, setSeverities] = useState<Severity[]>(SEVERITIES)
+
   const {
     packagingProduct,
     deliveryProduct,
+    packagingIdentity,
+    deliveryIdentity,
+    identityMismatches,
+    identityWarnings,
+    identifierCheck,
+    barcodeCheck,
     areProductsSame,
+    modelProductsMatch,
     overallSimilarityPercentage,
+    verdict,
+    verdictPenalties,
     angleAnalysis,
     comprehensiveDifferences,
     detailedSummary,
     confidenceScore,
     technicalAnalysis,
     recommendations,
+    orderCheck,
+    cachedAt,
   } = results
 
   const getStatusColor = () => {
-    if (areProductsSame && overallSimilarityPercentage > 90) return "text-green-600"
-    if (areProductsSame && overallSimilarityPercentage > 70) return "text-yellow-600"
+    if (verdict === "pass") return "text-green-600"
+    if (verdict === "review") return "text-yellow-600"
     return "text-red-600"
   }
 
   const getStatusIcon = () => {
-    if (areProductsSame && overallSimilarityPercentage > 90) return CheckCircle
-    if (areProductsSame && overallSimilarityPercentage > 70) return AlertTriangle
+    if (verdict === "pass") return CheckCircle
+    if (verdict === "review") return AlertTriangle
     return XCircle
   }
 
@@ -70,6 +127,17 @@ export default function MultiImageResults({ results }: MultiImageResultsProps) {
 
   const StatusIcon = getStatusIcon()
 
+  // Exports follow the severity filter on screen
+  const exportReport = (format: "json" | "csv") => {
+    const report = createValidationReport(results, severities)
+    const basename = `validation-${report.verdict}-${report.generatedAt.slice(0, 10)}`
+    if (format === "json") {
+      downloadFile(`${basename}.json`, JSON.stringify(report, null, 2), "application/json")
+    } else {
+      downloadFile(`${basename}.csv`, toDifferencesCsv(report), "text/csv")
+    }
+  }
+
   return (
     <div className="space-y-6">
       {/* Overall Status */}
@@ -81,6 +149,24 @@ export default function MultiImageResults({ results }: MultiImageResultsProps) {
             <Badge variant="outline" className="ml-auto">
               Confidence: {confidenceScore}%
             </Badge>
+            {cachedAt && (
+              <Badge
+                variant="secondary"
+                className="bg-slate-100 text-slate-700"
+                title={`Served from cache - analyzed ${new Date(cachedAt).toLocaleString()}`}
+              >
+                <History className="w-3 h-3 mr-1" />
+                Cached result
+              </Badge>
+            )}
+            <Button variant="outline" size="sm" onClick={() => exportReport("json")}>
+              <Download className="w-3 h-3 mr-1" />
+              JSON
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => exportReport("csv")}>
+              <Download className="w-3 h-3 mr-1" />
+              CSV
+            </Button>
           </CardTitle>
         </CardHeader>
         <CardContent>
@@ -93,11 +179,43 @@ export default function MultiImageResults({ results }: MultiImageResultsProps) {
               </h3>
               <div className="space-y-2">
                 <div className="flex justify-between items-center">
-                  <span className="text-sm text-gray-600">Product:</span>
-                  <Badge variant="outline" className="text-xs max-w-48 truncate" title={packagingProduct}>
+                  <span className="text-sm text-gray-600">Packaging:</span>
+                  <Badge
+                    variant="outline"
+                    className="text-xs max-w-48 truncate"
+                    title={formatProductIdentity(packagingIdentity)}
+                  >
                     {packagingProduct}
                   </Badge>
                 </div>
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-gray-600">Delivery:</span>
+                  <Badge
+                    variant={areProductsSame ? "outline" : "destructive"}
+                    className="text-xs max-w-48 truncate"
+                    title={formatProductIdentity(deliveryIdentity)}
+                  >
+                    {deliveryProduct}
+                  </Badge>
+                </div>
+                {identityMismatches.length > 0 && (
+                  <div className="bg-red-50 border border-red-200 rounded p-2 space-y-1">
+                    {identityMismatches.map((mismatch, index) => (
+                      <div key={index} className="text-xs text-red-700">
+                        {mismatch}
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {identityWarnings.length > 0 && (
+                  <div className="bg-amber-50 border border-amber-200 rounded p-2 space-y-1">
+                    {identityWarnings.map((warning, index) => (
+                      <div key={index} className="text-xs text-amber-800">
+                        {warning}
+                      </div>
+                    ))}
+                  </div>
+                )}
                 <div className="flex justify-between items-center">
                   <span className="text-sm text-gray-600">Images Analyzed:</span>
                   <Badge variant="secondary" className="text-xs">
@@ -122,41 +240,141 @@ export default function MultiImageResults({ results }: MultiImageResultsProps) {
               <div className="space-y-3">
                 <div className="flex justify-between items-center">
                   <span className="text-sm text-gray-600">Products Match:</span>
-                  <Badge variant={areProductsSame ? "default" : "destructive"}>{areProductsSame ? "Yes" : "No"}</Badge>
+                  <div className="flex items-center gap-2">
+                    {modelProductsMatch !== undefined && modelProductsMatch !== areProductsSame && (
+                      <span className="text-xs text-amber-600">Model: {modelProductsMatch ? "Yes" : "No"}</span>
+                    )}
+                    <Badge variant={areProductsSame ? "default" : "destructive"}>
+                      {areProductsSame ? "Yes" : "No"}
+                    </Badge>
+                  </div>
                 </div>
+                {orderCheck && (
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-gray-600">Matches Order:</span>
+                    <Badge variant={orderCheck.matches ? "default" : "destructive"}>
+                      {orderCheck.matches ? "Yes" : "No"}
+                    </Badge>
+                  </div>
+                )}
                 <div>
                   <div className="flex justify-between items-center mb-2">
                     <span className="text-sm text-gray-600">Overall Similarity:</span>
                     <span className={`font-semibold ${getStatusColor()}`}>{overallSimilarityPercentage}%</span>
                   </div>
                   <Progress value={overallSimilarityPercentage} className="h-2" />
+                  {technicalAnalysis.model_overall_similarity !== undefined && (
+                    <div
+                      className={`text-xs mt-1 ${technicalAnalysis.model_disagreement ? "text-amber-600" : "text-gray-500"}`}
+                    >
+                      Model estimate: {technicalAnalysis.model_overall_similarity}%
+                      {technicalAnalysis.model_disagreement && " (disagrees with the computed result)"}
+                    </div>
+                  )}
                 </div>
-                <div className="flex justify-between items-center">
-                  <span className="text-sm text-gray-600">Coverage:</span>
-                  <span className="text-sm font-medium">{technicalAnalysis.coverage_completeness}%</span>
-                </div>
+                {verdictPenalties.length > 0 && (
+                  <div className="space-y-1">
+                    {verdictPenalties.map((penalty, index) => (
+                      <div key={index} className="flex justify-between text-xs text-red-700">
+                        <span>{penalty.reason}</span>
+                        <span className="font-medium">-{penalty.points}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {technicalAnalysis.coverage_completeness !== undefined && (
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-gray-600">Coverage:</span>
+                    <span className="text-sm font-medium">{technicalAnalysis.coverage_completeness}%</span>
+                  </div>
+                )}
               </div>
             </div>
           </div>
         </CardContent>
       </Card>
 
+      {/* Order Check */}
+      {orderCheck && (
+        <Card className={orderCheck.matches ? "border-green-200" : "border-red-200"}>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ClipboardList className="w-5 h-5" />
+              Order Check
+              <Badge variant={orderCheck.matches ? "default" : "destructive"} className="ml-2">
+                {orderCheck.matches ? "Matches order" : "Does not match order"}
+              </Badge>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-sm text-gray-700 mb-4">
+              <span className="font-medium">{orderCheck.manifest.sku}</span> - {orderCheck.manifest.title}
+              {orderCheck.manifest.variant && ` (${orderCheck.manifest.variant})`}
+              {orderCheck.manifest.quantity > 1 && ` × ${orderCheck.manifest.quantity}`}
+            </div>
+            <div className="grid md:grid-cols-2 gap-6">
+              {(
+                [
+                  ["Packaging", orderCheck.packaging],
+                  ["Delivery", orderCheck.delivery],
+                ] as const
+              ).map(([label, side]) => (
+                <div key={label} className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    {side.matches ? (
+                      <CheckCircle className="w-4 h-4 text-green-600" />
+                    ) : (
+                      <XCircle className="w-4 h-4 text-red-600" />
+                    )}
+                    <span className="font-medium text-sm">{label}</span>
+                  </div>
+                  {side.matches && <p className="text-xs text-gray-600">Matches the ordered product</p>}
+                  {side.discrepancies.map((discrepancy, index) => (
+                    <p key={index} className="text-xs text-red-700">
+                      {discrepancy}
+                    </p>
+                  ))}
+                  {side.missingAccessories.length > 0 && (
+                    <p className="text-xs text-red-700">Missing accessories: {side.missingAccessories.join(", ")}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Serial numbers, IMEIs and barcodes */}
+      <IdentifierPanel check={identifierCheck} barcodeCheck={barcodeCheck} />
+
       {/* Angle-by-Angle Analysis */}
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <Camera className="w-5 h-5" />
             Angle-by-Angle Analysis
+            <div className="ml-auto font-normal">
+              <SeverityFilter
+                differences={[...comprehensiveDifferences, ...angleAnalysis.flatMap((angle) => angle.differences)]}
+                selected={severities}
+                onChange={setSeverities}
+              />
+            </div>
           </CardTitle>
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
+            {angleAnalysis.length === 0 && (
+              <p className="text-sm text-gray-600">
+                Angle comparison was skipped because the packaging and delivery images show different products.
+              </p>
+            )}
             {angleAnalysis.map((angle, index) => (
               <div key={index} className="border rounded-lg p-4 space-y-3">
                 <div className="flex items-center justify-between">
                   <div className="flex items-center gap-3">
                     <Eye className="w-4 h-4 text-purple-600" />
-                    <span className="font-medium capitalize">{angle.angle.replace("_", " ")}</span>
+                    <span className="font-medium capitalize">{angle.angle.replace(/_/g, " ")}</span>
                     <Badge className={getQualityColor(angle.matchQuality)}>{angle.matchQuality}</Badge>
                   </div>
                   <span className="font-semibold text-sm">{angle.similarityPercentage}%</span>
@@ -164,23 +382,76 @@ export default function MultiImageResults({ results }: MultiImageResultsProps) {
 
                 <Progress value={angle.similarityPercentage} className="h-2" />
 
-                <div className="text-xs text-gray-600">
+                <div className="flex items-center justify-between text-xs text-gray-600">
                   <span>
                     Packaging Image #{angle.packagingImageIndex + 1} ↔ Delivery Image #{angle.deliveryImageIndex + 1}
                   </span>
+                  {angle.pixelComparison && (
+                    <span
+                      title={[
+                        `Brightness difference: ${angle.pixelComparison.brightnessDiff}`,
+                        `Contrast difference: ${angle.pixelComparison.contrastDiff}`,
+                        `Colour difference: ${angle.pixelComparison.colorDiff}`,
+                        ...(angle.pixelComparison.edgeDiff !== undefined
+                          ? [`Edge density difference: ${angle.pixelComparison.edgeDiff}`]
+                          : []),
+                        ...(angle.pixelComparison.psnr !== undefined
+                          ? [`PSNR: ${Number.isFinite(angle.pixelComparison.psnr) ? `${angle.pixelComparison.psnr} dB` : "identical"}`]
+                          : []),
+                      ].join("\n")}
+                    >
+                      {pixelMetricName(angle.pixelComparison)}: {angle.pixelComparison.similarityPercentage}%
+                    </span>
+                  )}
                 </div>
 
+                {angle.pixelDisagreement && (
+                  <div className="flex items-start gap-2 rounded border border-amber-200 bg-amber-50 p-2 text-xs text-amber-800">
+                    <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                    <span>{angle.pixelDisagreement}</span>
+                  </div>
+                )}
+
+                {angle.differences.some((difference) => difference.regions.length > 0) && (
+                  <div className="grid grid-cols-2 gap-3">
+                    <AnnotatedImage
+                      src={packagingUrls[angle.packagingImageIndex]}
+                      alt={`Packaging image ${angle.packagingImageIndex + 1}`}
+                      annotations={getAnnotations(angle, index, "packaging", angle.packagingImageIndex, severities)}
+                      activeId={activeDifference}
+                      onActiveChange={setActiveDifference}
+                    />
+                    <AnnotatedImage
+                      src={deliveryUrls[angle.deliveryImageIndex]}
+                      alt={`Delivery image ${angle.deliveryImageIndex + 1}`}
+                      annotations={getAnnotations(angle, index, "delivery", angle.deliveryImageIndex, severities)}
+                      activeId={activeDifference}
+                      onActiveChange={setActiveDifference}
+                    />
+                  </div>
+                )}
+
+                {angle.pixelComparison?.heatmap && (
+                  <DifferenceHeatmap
+                    src={deliveryUrls[angle.deliveryImageIndex]}
+                    heatmap={angle.pixelComparison.heatmap}
+                    alt={`Difference heatmap over delivery image ${angle.deliveryImageIndex + 1}`}
+                  />
+                )}
+
                 {angle.differences.length > 0 && (
                   <div className="text-sm">
                     <span className="font-medium text-gray-700">Differences:</span>
-                    <ul className="mt-1 space-y-1">
-                      {angle.differences.map((diff, diffIndex) => (
-                        <li key={diffIndex} className="text-gray-600 text-xs flex items-start gap-1">
-                          <div className="w-1 h-1 bg-red-400 rounded-full mt-1.5 flex-shrink-0" />
-                          {diff}
-                        </li>
-                      ))}
-                    </ul>
+                    <div className="mt-1">
+                      <DifferenceList
+                        differences={angle.differences}
+                        severities={severities}
+                        idPrefix={`${index}-`}
+                        activeId={activeDifference}
+                        onActiveChange={setActiveDifference}
+                        emptyText=""
+                      />
+                    </div>
                   </div>
                 )}
               </div>
@@ -210,12 +481,14 @@ export default function MultiImageResults({ results }: MultiImageResultsProps) {
                   <span className="text-gray-600">Delivery Images:</span>
                   <span>{technicalAnalysis.total_delivery_images}</span>
                 </div>
-                <div className="flex justify-between text-sm">
-                  <span className="text-gray-600">Validation Reliability:</span>
-                  <Badge variant="outline" className="text-xs">
-                    {technicalAnalysis.validation_reliability}
-                  </Badge>
-                </div>
+                {technicalAnalysis.validation_reliability && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-600">Validation Reliability:</span>
+                    <Badge variant="outline" className="text-xs">
+                      {technicalAnalysis.validation_reliability}
+                    </Badge>
+                  </div>
+                )}
               </div>
             </div>
 
@@ -238,6 +511,34 @@ export default function MultiImageResults({ results }: MultiImageResultsProps) {
                     </div>
                   </div>
                 )}
+                {isCrossChecking && (
+                  <div className="flex items-center gap-2 text-xs text-gray-500">
+                    <Loader2 className="w-3 h-3 animate-spin" />
+                    <span>Cross-checking each angle pixel by pixel...</span>
+                  </div>
+                )}
+                {technicalAnalysis.pixel_comparison?.error && (
+                  <div className="flex items-start gap-2 text-xs text-amber-700">
+                    <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                    <span>Pixel check unavailable: {technicalAnalysis.pixel_comparison.error}</span>
+                  </div>
+                )}
+                {technicalAnalysis.pixel_comparison && !technicalAnalysis.pixel_comparison.error && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-600">
+                      Pixel Check ({technicalAnalysis.pixel_comparison.method === "advanced" ? "SSIM" : "MSE"}):
+                    </span>
+                    <span
+                      className={technicalAnalysis.pixel_comparison.disagreements > 0 ? "text-amber-700" : undefined}
+                    >
+                      {technicalAnalysis.pixel_comparison.mean_similarity}% avg
+                      {technicalAnalysis.pixel_comparison.disagreements > 0 &&
+                        `, disagrees on ${technicalAnalysis.pixel_comparison.disagreements} angle${
+                          technicalAnalysis.pixel_comparison.disagreements !== 1 ? "s" : ""
+                        }`}
+                    </span>
+                  </div>
+                )}
               </div>
             </div>
           </div>
@@ -252,18 +553,11 @@ export default function MultiImageResults({ results }: MultiImageResultsProps) {
             <CardTitle className="text-lg">Comprehensive Differences</CardTitle>
           </CardHeader>
           <CardContent>
-            {comprehensiveDifferences.length > 0 ? (
-              <ul className="space-y-2">
-                {comprehensiveDifferences.map((difference, index) => (
-                  <li key={index} className="flex items-start gap-2">
-                    <div className="w-2 h-2 bg-red-500 rounded-full mt-2 flex-shrink-0" />
-                    <span className="text-sm text-gray-700">{difference}</span>
-                  </li>
-                ))}
-              </ul>
-            ) : (
-              <p className="text-sm text-gray-500 italic">No significant differences detected across all angles</p>
-            )}
+            <DifferenceList
+              differences={comprehensiveDifferences}
+              severities={severities}
+              emptyText="No significant differences detected across all angles"
+            />
           </CardContent>
         </Card>
 
@@ -293,28 +587,30 @@ export default function MultiImageResults({ results }: MultiImageResultsProps) {
             ))}
 
             <div className="mt-4 p-3 bg-white rounded-lg border">
-              {areProductsSame ? (
-                <>
-                  {overallSimilarityPercentage > 90 ? (
-                    <p className="text-green-700 font-medium text-sm">
-                      ✅ Multi-angle validation PASSED - Products match with high confidence across all angles (
-                      {confidenceScore}% confidence)
-                    </p>
-                  ) : overallSimilarityPercentage > 70 ? (
-                    <p className="text-yellow-700 font-medium text-sm">
-                      ⚠️ Products match but with variations across some angles - Manual review recommended (
-                      {confidenceScore}% confidence)
-                    </p>
-                  ) : (
-                    <p className="text-orange-700 font-medium text-sm">
-                      🔍 Products match but with significant differences - Detailed inspection required (
-                      {confidenceScore}% confidence)
-                    </p>
-                  )}
-                </>
+              {verdict === "pass" ? (
+                <p className="text-green-700 font-medium text-sm">
+                  ✅ Multi-angle validation PASSED - Products match with high confidence across all angles (
+                  {confidenceScore}% confidence)
+                </p>
+              ) : verdict === "review" ? (
+                <p className="text-yellow-700 font-medium text-sm">
+                  ⚠️ Products match but with variations across some angles - Manual review recommended (
+                  {confidenceScore}% confidence)
+                </p>
+              ) : verdict === "inspect" ? (
+                <p className="text-orange-700 font-medium text-sm">
+                  🔍 Products match but with significant differences - Detailed inspection required (
+                  {confidenceScore}% confidence)
+                </p>
               ) : (
                 <p className="text-red-700 font-medium text-sm">
-                  ❌ Multi-angle validation FAILED - Products do not match ({confidenceScore}% confidence)
+                  ❌ Multi-angle validation FAILED -{" "}
+                  {identityMismatches.length > 0
+                    ? "Products do not match"
+                    : identifierCheck.mismatch || barcodeCheck?.mismatch
+                      ? "A different unit was delivered"
+                      : "Delivered product does not match the order"}{" "}
+                  ({confidenceScore}% confidence)
                 </p>
               )}
             </div>
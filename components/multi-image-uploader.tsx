@@ -1,10 +1,32 @@
 "use client"
 
 import type React from "react"
-import { useRef, useState } from "react"
-import { Upload, X, Plus, Images } from "lucide-react"
+import { useEffect, useRef, useState } from "react"
+import {
+  Upload,
+  X,
+  Plus,
+  Images,
+  AlertCircle,
+  ScanBarcode,
+  CheckCircle,
+  AlertTriangle,
+  XCircle,
+  RotateCcw,
+  Circle,
+  ListChecks,
+  Camera,
+} from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
+import { useObjectUrls } from "@/hooks/use-object-urls"
+import CameraCapture, { isCameraSupported } from "@/components/camera-capture"
+import type { AngleSlot, SlotCoverage } from "@/lib/angle-templates"
+import type { DecodedBarcode } from "@/lib/barcode-decoder"
+import { scanImageFile } from "@/lib/barcode-scanner"
+import type { ImageQualityReport, QualityStatus } from "@/lib/image-quality"
+import { assessImageFile } from "@/lib/image-quality-scanner"
+import { normalizeImageFile } from "@/lib/image-normalization"
 
 interface MultiImageUploaderProps {
   onImagesSelect: (files: File[]) => void
@@ -12,6 +34,15 @@ interface MultiImageUploaderProps {
   placeholder: string
   description: string
   maxImages?: number
+  onBlockedImagesChange?: (files: File[]) => void // images that failed the quality check
+  onQualityPendingChange?: (pending: boolean) => void // some images are still being checked
+  checklist?: SlotCoverage[] // required shots of the product category, filled as images are classified
+}
+
+const QUALITY_BADGES: Record<QualityStatus, { label: string; icon: typeof CheckCircle; className: string }> = {
+  pass: { label: "Good", icon: CheckCircle, className: "bg-green-100 text-green-800" },
+  warn: { label: "Check", icon: AlertTriangle, className: "bg-yellow-100 text-yellow-800" },
+  fail: { label: "Retake", icon: XCircle, className: "bg-red-100 text-red-800" },
 }
 
 export default function MultiImageUploader({
@@ -20,41 +51,158 @@ export default function MultiImageUploader({
   placeholder,
   description,
   maxImages = 5,
+  onBlockedImagesChange,
+  onQualityPendingChange,
+  checklist,
 }: MultiImageUploaderProps) {
   const fileInputRef = useRef<HTMLInputElement>(null)
-  const [previewUrls, setPreviewUrls] = useState<string[]>([])
+  const retakeIndexRef = useRef<number | null>(null)
+  // The latest list, updated as soon as images are added or removed: captures that finish
+  // normalizing before the parent re-renders must build on each other, not on the last props
+  const selectedImagesRef = useRef(selectedImages)
+  const previewUrls = useObjectUrls(selectedImages)
+  const [rejectedFiles, setRejectedFiles] = useState<Array<{ name: string; reason: string }>>([])
+  const [barcodes, setBarcodes] = useState<Map<File, DecodedBarcode[]>>(new Map())
+  const [quality, setQuality] = useState<Map<File, ImageQualityReport | null>>(new Map())
+  const [cameraSupported, setCameraSupported] = useState(false)
+  // The shots the camera walks through and the room left, fixed when it opens so the captures
+  // and the classification that follows them don't shift the sequence
+  const [cameraSession, setCameraSession] = useState<{ slots: AngleSlot[]; maxShots: number } | null>(null)
+
+  // Only known in the browser, so checked after mounting to keep the server render identical
+  useEffect(() => {
+    setCameraSupported(isCameraSupported())
+  }, [])
+
+  useEffect(() => {
+    selectedImagesRef.current = selectedImages
+  }, [selectedImages])
+
+  const selectImages = (files: File[]) => {
+    selectedImagesRef.current = files
+    onImagesSelect(files)
+  }
+
+  // Decode barcodes on-device as images arrive; the scans are cached for the analysis. Removed
+  // images drop out of the map.
+  useEffect(() => {
+    let cancelled = false
+    setBarcodes((previous) => new Map([...previous].filter(([file]) => selectedImages.includes(file))))
+    selectedImages.forEach((file) =>
+      scanImageFile(file).then((found) => {
+        if (!cancelled) setBarcodes((previous) => new Map(previous).set(file, found))
+      }),
+    )
+    return () => {
+      cancelled = true
+    }
+  }, [selectedImages])
 
-  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+  // Quality checks run alongside; an image is only blocked once its check has come back failed
+  useEffect(() => {
+    let cancelled = false
+    setQuality((previous) => new Map([...previous].filter(([file]) => selectedImages.includes(file))))
+    selectedImages.forEach((file) =>
+      assessImageFile(file).then((report) => {
+        if (!cancelled) setQuality((previous) => new Map(previous).set(file, report))
+      }),
+    )
+    return () => {
+      cancelled = true
+    }
+  }, [selectedImages])
+
+  useEffect(() => {
+    onBlockedImagesChange?.(selectedImages.filter((file) => quality.get(file)?.status === "fail"))
+  }, [selectedImages, quality, onBlockedImagesChange])
+
+  useEffect(() => {
+    onQualityPendingChange?.(selectedImages.some((file) => !quality.has(file)))
+  }, [selectedImages, quality, onQualityPendingChange])
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(event.target.files || [])
-    const imageFiles = files.filter((file) => file.type.startsWith("image/"))
+    event.target.value = "" // allow re-selecting the same file after a rejection
+    await addImages(files)
+  }
 
-    // Limit to maxImages
-    const newImages = [...selectedImages, ...imageFiles].slice(0, maxImages)
-    onImagesSelect(newImages)
+  const addImages = async (files: File[]) => {
+    // Detect the real format from the bytes and convert anything Gemini can't read
+    const normalized = await Promise.all(files.map((file) => normalizeImageFile(file)))
+    const imageFiles: File[] = []
+    const rejected: Array<{ name: string; reason: string }> = []
+    normalized.forEach((result, index) => {
+      if ("error" in result) rejected.push({ name: files[index].name, reason: result.error })
+      else imageFiles.push(result.file)
+    })
+    setRejectedFiles(rejected)
 
-    // Create preview URLs
-    const newUrls = newImages.map((file) => URL.createObjectURL(file))
-    setPreviewUrls(newUrls)
+    // A retake replaces the image in place so the angle order is kept
+    const retakeIndex = retakeIndexRef.current
+    retakeIndexRef.current = null
+    const current = selectedImagesRef.current
+    selectImages(
+      retakeIndex !== null && imageFiles.length > 0
+        ? current.map((file, index) => (index === retakeIndex ? imageFiles[0] : file))
+        : [...current, ...imageFiles].slice(0, maxImages), // Limit to maxImages
+    )
   }
 
   const handleRemoveImage = (index: number) => {
-    const newImages = selectedImages.filter((_, i) => i !== index)
-    onImagesSelect(newImages)
-
-    // Update preview URLs
-    const newUrls = previewUrls.filter((_, i) => i !== index)
-    setPreviewUrls(newUrls)
+    selectImages(selectedImagesRef.current.filter((_, i) => i !== index))
   }
 
   const handleClick = () => {
+    retakeIndexRef.current = null
+    fileInputRef.current?.click()
+  }
+
+  const handleRetake = (index: number) => {
+    retakeIndexRef.current = index
     fileInputRef.current?.click()
   }
 
+  const handleOpenCamera = () => {
+    retakeIndexRef.current = null
+    setCameraSession({
+      slots: (checklist ?? []).filter((entry) => entry.imageIndices.length === 0).map((entry) => entry.slot),
+      maxShots: maxImages - selectedImages.length,
+    })
+  }
+
   const canAddMore = selectedImages.length < maxImages
 
   return (
     <div className="w-full space-y-4">
-      <input ref={fileInputRef} type="file" accept="image/*" multiple onChange={handleFileSelect} className="hidden" />
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*,.heic,.heif"
+        multiple
+        onChange={handleFileSelect}
+        className="hidden"
+      />
+
+      {/* Required Shots */}
+      {checklist && checklist.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <ListChecks className="w-4 h-4 text-purple-600" />
+          {checklist.map(({ slot, imageIndices }) => {
+            const filled = imageIndices.length > 0
+            return (
+              <Badge
+                key={slot.id}
+                variant="outline"
+                className={`text-xs ${filled ? "border-green-300 bg-green-50 text-green-800" : "text-gray-500"}`}
+                title={filled ? `Image ${imageIndices.map((index) => index + 1).join(", ")}` : slot.description}
+              >
+                {filled ? <CheckCircle className="w-3 h-3 mr-1" /> : <Circle className="w-3 h-3 mr-1" />}
+                {slot.label}
+              </Badge>
+            )
+          })}
+        </div>
+      )}
 
       {/* Upload Area */}
       {(selectedImages.length === 0 || canAddMore) && (
@@ -68,6 +216,44 @@ export default function MultiImageUploader({
           <Badge variant="outline" className="text-xs">
             {selectedImages.length}/{maxImages} images
           </Badge>
+          {cameraSupported && (
+            <Button
+              onClick={(event) => {
+                event.stopPropagation()
+                handleOpenCamera()
+              }}
+              variant="outline"
+              size="sm"
+              className="mt-3 text-xs"
+            >
+              <Camera className="w-3 h-3 mr-1" />
+              Use Camera
+            </Button>
+          )}
+        </div>
+      )}
+
+      <CameraCapture
+        open={cameraSession !== null}
+        onOpenChange={(open) => {
+          if (!open) setCameraSession(null)
+        }}
+        slots={cameraSession?.slots ?? []}
+        maxShots={cameraSession?.maxShots ?? 0}
+        onCapture={(file) => addImages([file])}
+      />
+
+      {/* Rejected Files */}
+      {rejectedFiles.length > 0 && (
+        <div className="rounded-lg border border-red-200 bg-red-50 p-3 space-y-1">
+          {rejectedFiles.map((rejection, index) => (
+            <div key={index} className="flex items-start gap-2 text-xs text-red-700">
+              <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+              <span>
+                <span className="font-medium">{rejection.name}:</span> {rejection.reason}
+              </span>
+            </div>
+          ))}
         </div>
       )}
 
@@ -90,26 +276,71 @@ export default function MultiImageUploader({
           </div>
 
           <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
-            {previewUrls.map((url, index) => (
-              <div key={index} className="relative group">
-                <img
-                  src={url || "/placeholder.svg"}
-                  alt={`Preview ${index + 1}`}
-                  className="w-full h-32 object-cover rounded-lg border shadow-sm"
-                />
-                <Button
-                  onClick={() => handleRemoveImage(index)}
-                  variant="destructive"
-                  size="sm"
-                  className="absolute top-1 right-1 w-6 h-6 p-0 opacity-0 group-hover:opacity-100 transition-opacity"
-                >
-                  <X className="w-3 h-3" />
-                </Button>
-                <Badge variant="secondary" className="absolute bottom-1 left-1 text-xs px-1 py-0">
-                  {index + 1}
-                </Badge>
-              </div>
-            ))}
+            {selectedImages.map((file, index) => {
+              const url = previewUrls[index]
+              const imageBarcodes = barcodes.get(file) ?? []
+              const report = quality.get(file)
+              const qualityBadge = report && QUALITY_BADGES[report.status]
+              return (
+                <div key={index} className="space-y-1">
+                  <div className="relative group">
+                    <img
+                      src={url || "/placeholder.svg"}
+                      alt={`Preview ${index + 1}`}
+                      className="w-full h-32 object-cover rounded-lg border shadow-sm"
+                    />
+                    <Button
+                      onClick={() => handleRemoveImage(index)}
+                      variant="destructive"
+                      size="sm"
+                      className="absolute top-1 right-1 w-6 h-6 p-0 opacity-0 group-hover:opacity-100 transition-opacity"
+                    >
+                      <X className="w-3 h-3" />
+                    </Button>
+                    <Badge variant="secondary" className="absolute bottom-1 left-1 text-xs px-1 py-0">
+                      {index + 1}
+                    </Badge>
+                    {imageBarcodes.length > 0 && (
+                      <Badge
+                        variant="secondary"
+                        className="absolute bottom-1 right-1 text-xs px-1 py-0 bg-white/90"
+                        title={imageBarcodes.map((barcode) => `${barcode.format.toUpperCase()}: ${barcode.value}`).join("\n")}
+                      >
+                        <ScanBarcode className="w-3 h-3 mr-1" />
+                        {imageBarcodes.length}
+                      </Badge>
+                    )}
+                    {qualityBadge && (
+                      <Badge
+                        className={`absolute top-1 left-1 text-xs px-1 py-0 ${qualityBadge.className}`}
+                        title={report.checks.map((check) => `${check.name}: ${check.message}`).join("\n")}
+                      >
+                        <qualityBadge.icon className="w-3 h-3 mr-1" />
+                        {qualityBadge.label}
+                      </Badge>
+                    )}
+                  </div>
+                  {report && report.status !== "pass" && (
+                    <div
+                      className={`flex items-start justify-between gap-1 text-xs ${
+                        report.status === "fail" ? "text-red-700" : "text-yellow-700"
+                      }`}
+                    >
+                      <span>{report.reasons.join("; ")}</span>
+                      <Button
+                        onClick={() => handleRetake(index)}
+                        variant="outline"
+                        size="sm"
+                        className="h-6 px-2 text-xs flex-shrink-0"
+                      >
+                        <RotateCcw className="w-3 h-3 mr-1" />
+                        Retake
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              )
+            })}
           </div>
 
           {/* File Names */}
@@ -0,0 +1,98 @@
+"use client"
+
+import { ClipboardList } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { orderManifestSchema, type OrderManifest } from "@/lib/order-manifest"
+
+// Raw form values; quantity and accessories are parsed on submit
+export interface OrderManifestDraft {
+  sku: string
+  title: string
+  brand: string
+  variant: string
+  quantity: string
+  accessories: string // comma-separated
+}
+
+export const EMPTY_MANIFEST_DRAFT: OrderManifestDraft = {
+  sku: "",
+  title: "",
+  brand: "",
+  variant: "",
+  quantity: "1",
+  accessories: "",
+}
+
+// An untouched form means "no manifest"; a partly filled one has to be valid
+export function toOrderManifest(draft: OrderManifestDraft): { manifest?: OrderManifest; error?: string } {
+  const { sku, title, brand, variant, accessories } = draft
+  if (![sku, title, brand, variant, accessories].some((value) => value.trim())) return {}
+
+  const parsed = orderManifestSchema.safeParse({
+    sku,
+    title,
+    brand: brand.trim() || undefined,
+    variant: variant.trim() || undefined,
+    quantity: Number(draft.quantity),
+    expectedAccessories: accessories
+      .split(",")
+      .map((accessory) => accessory.trim())
+      .filter(Boolean),
+  })
+  if (!parsed.success) {
+    return { error: `Order manifest: ${parsed.error.issues.map((issue) => issue.message).join(", ")}` }
+  }
+  return { manifest: parsed.data }
+}
+
+interface OrderManifestFormProps {
+  value: OrderManifestDraft
+  onChange: (draft: OrderManifestDraft) => void
+  disabled?: boolean
+}
+
+export default function OrderManifestForm({ value, onChange, disabled }: OrderManifestFormProps) {
+  const fields: Array<{ key: keyof OrderManifestDraft; label: string; placeholder: string; type?: string }> = [
+    { key: "sku", label: "SKU", placeholder: "e.g. B0CHX1W1XY" },
+    { key: "title", label: "Title", placeholder: "e.g. Apple iPhone 15 Pro" },
+    { key: "brand", label: "Brand", placeholder: "e.g. Apple" },
+    { key: "variant", label: "Variant", placeholder: "e.g. 256GB Natural Titanium" },
+    { key: "quantity", label: "Quantity", placeholder: "1", type: "number" },
+    { key: "accessories", label: "Expected Accessories", placeholder: "e.g. USB-C cable, SIM tool" },
+  ]
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <ClipboardList className="w-5 h-5" />
+          Order Manifest
+          <span className="text-sm font-normal text-gray-500">(optional)</span>
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Both image sets are also checked against what was ordered, so a wrong item packed at the start is caught.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="grid md:grid-cols-3 gap-4">
+          {fields.map((field) => (
+            <div key={field.key} className="space-y-1">
+              <Label htmlFor={`manifest-${field.key}`}>{field.label}</Label>
+              <Input
+                id={`manifest-${field.key}`}
+                type={field.type ?? "text"}
+                min={field.type === "number" ? 1 : undefined}
+                value={value[field.key]}
+                placeholder={field.placeholder}
+                disabled={disabled}
+                onChange={(event) => onChange({ ...value, [field.key]: event.target.value })}
+              />
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
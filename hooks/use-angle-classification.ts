@@ -0,0 +1,115 @@
+import * as React from "react"
+import { isAbortError } from "@/lib/abort"
+import {
+  proposePairing,
+  type AngleClassification,
+  type AngleClassificationResult,
+  type ImagePair,
+} from "@/lib/angle-pairing"
+import { requestAngleClassification } from "@/lib/validation-client"
+
+// Wait for the user to stop adding images before asking the model
+const CLASSIFY_DELAY_MS = 800
+
+interface ImageLabels {
+  templateId: string // slots depend on the category, so a new one labels every image again
+  packaging: Map<File, AngleClassification>
+  delivery: Map<File, AngleClassification>
+}
+
+// A pair made by the user, held by its images so it survives images being added or removed
+interface ManualPair {
+  packaging: File
+  delivery: File
+  pair: ImagePair
+}
+
+const emptyLabels = (templateId: string): ImageLabels => ({ templateId, packaging: new Map(), delivery: new Map() })
+
+// Angle labels, template slots and the proposed pairing for the current images. Each image is
+// labelled once, when it's added, so only new images go to the model. The pairing can be
+// repaired through setResult; pairs the user made are kept as long as both of their images
+// are, and the others are proposed again around them whenever the images change.
+export function useAngleClassification(packagingImages: File[], deliveryImages: File[], templateId: string) {
+  const [result, setResultState] = React.useState<AngleClassificationResult | null>(null)
+  const [isClassifying, setIsClassifying] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+  const [runId, setRunId] = React.useState(0)
+  const labelsRef = React.useRef<ImageLabels>(emptyLabels(templateId))
+  const manualPairsRef = React.useRef<ManualPair[]>([])
+  // The images the current result's indices refer to
+  const resultImagesRef = React.useRef({ packaging: packagingImages, delivery: deliveryImages })
+
+  const setResult = React.useCallback((value: AngleClassificationResult | null) => {
+    setResultState(value)
+    if (!value) return
+    const { packaging, delivery } = resultImagesRef.current
+    manualPairsRef.current = value.pairs
+      .filter((pair) => pair.manual)
+      .map((pair) => ({ packaging: packaging[pair.packagingIndex], delivery: delivery[pair.deliveryIndex], pair }))
+  }, [])
+
+  React.useEffect(() => {
+    setResultState(null)
+    setError(null)
+    if (labelsRef.current.templateId !== templateId) labelsRef.current = emptyLabels(templateId)
+    if (packagingImages.length === 0 && deliveryImages.length === 0) {
+      setIsClassifying(false)
+      return
+    }
+
+    const labels = labelsRef.current
+    const showResult = () => {
+      const packaging = packagingImages.map((file, imageIndex) => ({ ...labels.packaging.get(file)!, imageIndex }))
+      const delivery = deliveryImages.map((file, imageIndex) => ({ ...labels.delivery.get(file)!, imageIndex }))
+      const manualPairs = manualPairsRef.current.flatMap(({ pair, ...files }) => {
+        const packagingIndex = packagingImages.indexOf(files.packaging)
+        const deliveryIndex = deliveryImages.indexOf(files.delivery)
+        return packagingIndex >= 0 && deliveryIndex >= 0 ? [{ ...pair, packagingIndex, deliveryIndex }] : []
+      })
+      resultImagesRef.current = { packaging: packagingImages, delivery: deliveryImages }
+      setResult({ packaging, delivery, pairs: proposePairing(packaging, delivery, manualPairs) })
+    }
+
+    const newPackaging = packagingImages.filter((file) => !labels.packaging.has(file))
+    const newDelivery = deliveryImages.filter((file) => !labels.delivery.has(file))
+    if (newPackaging.length === 0 && newDelivery.length === 0) {
+      setIsClassifying(false)
+      showResult()
+      return
+    }
+
+    const abortController = new AbortController()
+    setIsClassifying(true)
+    const timer = setTimeout(async () => {
+      try {
+        const classified = await requestAngleClassification(newPackaging, newDelivery, {
+          signal: abortController.signal,
+          templateId,
+        })
+        classified.packaging.forEach((label) => labels.packaging.set(newPackaging[label.imageIndex], label))
+        classified.delivery.forEach((label) => labels.delivery.set(newDelivery[label.imageIndex], label))
+        if (!abortController.signal.aborted) showResult()
+      } catch (err) {
+        if (!isAbortError(err) && !abortController.signal.aborted) {
+          setError(err instanceof Error ? err.message : "Angle classification failed")
+        }
+      } finally {
+        if (!abortController.signal.aborted) setIsClassifying(false)
+      }
+    }, CLASSIFY_DELAY_MS)
+
+    return () => {
+      clearTimeout(timer)
+      abortController.abort()
+    }
+  }, [packagingImages, deliveryImages, templateId, runId, setResult])
+
+  // Labels every image again; the user's pairs are still kept
+  const retry = React.useCallback(() => {
+    labelsRef.current = emptyLabels(labelsRef.current.templateId)
+    setRunId((previous) => previous + 1)
+  }, [])
+
+  return { result, setResult, isClassifying, error, retry }
+}
@@ -0,0 +1,14 @@
+import * as React from "react"
+
+// Object URLs for previewing files, revoked when the files change or the component unmounts
+export function useObjectUrls(files: File[]) {
+  const [urls, setUrls] = React.useState<string[]>([])
+
+  React.useEffect(() => {
+    const created = files.map((file) => URL.createObjectURL(file))
+    setUrls(created)
+    return () => created.forEach((url) => URL.revokeObjectURL(url))
+  }, [files])
+
+  return urls
+}
@@ -0,0 +1,60 @@
+// Cancellation helpers shared by the analysis pipeline, the providers and the Pyodide path
+import { formatStageName } from "@/lib/analysis-progress"
+
+export const DEFAULT_STAGE_TIMEOUT_MS = 90000
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && (error.name === "AbortError" || error.name === "TimeoutError")
+}
+
+export function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason)
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
+
+// Settles with `promise` unless `signal` aborts first; for work that can't observe a signal itself
+export function raceWithSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise
+
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(signal.reason)
+
+    const onAbort = () => reject(signal.reason)
+    signal.addEventListener("abort", onAbort, { once: true })
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort))
+  })
+}
+
+// Runs one pipeline stage under its own deadline; a caller abort passes through untouched
+export async function withStageTimeout<T>(
+  stage: string,
+  timeoutMs: number,
+  signal: AbortSignal | undefined,
+  run: (stageSignal: AbortSignal) => Promise<T>,
+): Promise<T> {
+  signal?.throwIfAborted()
+
+  const timeout = AbortSignal.timeout(timeoutMs)
+  const stageSignal = signal ? AbortSignal.any([signal, timeout]) : timeout
+
+  try {
+    return await run(stageSignal)
+  } catch (error) {
+    if (timeout.aborted && !signal?.aborted) {
+      const seconds = Math.round(timeoutMs / 1000)
+      throw new Error(`The ${formatStageName(stage)} stage timed out after ${seconds}s. Please try again.`)
+    }
+    throw error
+  }
+}
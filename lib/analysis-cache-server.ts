@@ -0,0 +1,42 @@
+import { mkdir, readFile, writeFile } from "fs/promises"
+import path from "path"
+import { createMemoryCacheStore, type AnalysisCacheStore, type CachedAnalysis } from "@/lib/analysis-cache"
+
+export function createFileSystemCacheStore(directory: string): AnalysisCacheStore {
+  const entryPath = (key: string) => path.join(directory, `${key}.json`)
+
+  return {
+    async get(key) {
+      try {
+        return JSON.parse(await readFile(entryPath(key), "utf8")) as CachedAnalysis
+      } catch {
+        return undefined
+      }
+    },
+
+    async set(key, entry) {
+      await mkdir(directory, { recursive: true })
+      await writeFile(entryPath(key), JSON.stringify(entry))
+    },
+  }
+}
+
+let serverStore: AnalysisCacheStore | null | undefined
+
+// ANALYSIS_CACHE_STORE=memory (default) | filesystem | none; ANALYSIS_CACHE_DIR for the filesystem store
+export function getServerCacheStore(): AnalysisCacheStore | null {
+  if (serverStore !== undefined) return serverStore
+
+  switch (process.env.ANALYSIS_CACHE_STORE) {
+    case "none":
+      serverStore = null
+      break
+    case "filesystem":
+      serverStore = createFileSystemCacheStore(process.env.ANALYSIS_CACHE_DIR || path.join(process.cwd(), ".cache", "analysis"))
+      break
+    default:
+      serverStore = createMemoryCacheStore()
+  }
+
+  return serverStore
+}
@@ -0,0 +1,118 @@
+import { sha256Hex } from "@/lib/hash"
+
+export interface CachedAnalysis {
+  result: unknown
+  cachedAt: string // ISO timestamp of when the result was computed
+}
+
+// Pluggable storage for analysis results; keys are opaque SHA-256 hex strings
+export interface AnalysisCacheStore {
+  get(key: string): Promise<CachedAnalysis | undefined>
+  set(key: string, entry: CachedAnalysis): Promise<void>
+}
+
+interface AnalysisCacheKeyParts {
+  kind: "single" | "multi" | "angles"
+  model: string
+  promptVersion: string
+  packagingHashes: string[]
+  deliveryHashes: string[]
+  inputs?: unknown // any other request input that changes the result, e.g. the order manifest
+}
+
+// Image order matters (indices are reported back), so hashes are kept in upload order
+export function computeAnalysisCacheKey(parts: AnalysisCacheKeyParts): Promise<string> {
+  return sha256Hex(
+    JSON.stringify([
+      parts.kind,
+      parts.model,
+      parts.promptVersion,
+      parts.packagingHashes,
+      parts.deliveryHashes,
+      parts.inputs ?? null,
+    ]),
+  )
+}
+
+export function createMemoryCacheStore(maxEntries = 100): AnalysisCacheStore {
+  const entries = new Map<string, CachedAnalysis>()
+
+  return {
+    async get(key) {
+      const entry = entries.get(key)
+      if (entry) {
+        // Re-insert to keep the most recently used entries at the end
+        entries.delete(key)
+        entries.set(key, entry)
+      }
+      return entry
+    },
+
+    async set(key, entry) {
+      entries.delete(key)
+      entries.set(key, entry)
+      if (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value
+        if (oldest !== undefined) entries.delete(oldest)
+      }
+    },
+  }
+}
+
+const IDB_STORE_NAME = "analyses"
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Browser-side store for running analyses in the client (e.g. with the mock provider)
+export function createIndexedDbCacheStore(databaseName = "delivery-validation-cache"): AnalysisCacheStore {
+  let database: Promise<IDBDatabase> | null = null
+
+  const openDatabase = () => {
+    if (!database) {
+      const request = indexedDB.open(databaseName, 1)
+      request.onupgradeneeded = () => request.result.createObjectStore(IDB_STORE_NAME)
+      database = promisifyRequest(request)
+    }
+    return database
+  }
+
+  return {
+    async get(key) {
+      const db = await openDatabase()
+      const entry = await promisifyRequest(db.transaction(IDB_STORE_NAME).objectStore(IDB_STORE_NAME).get(key))
+      return entry ?? undefined
+    },
+
+    async set(key, entry) {
+      const db = await openDatabase()
+      await promisifyRequest(db.transaction(IDB_STORE_NAME, "readwrite").objectStore(IDB_STORE_NAME).put(entry, key))
+    },
+  }
+}
+
+// Cache failures never fail an analysis; they only cost a recomputation
+export async function readCachedAnalysis<T>(
+  store: AnalysisCacheStore,
+  key: string,
+): Promise<(T & { cachedAt: string }) | undefined> {
+  try {
+    const entry = await store.get(key)
+    return entry && { ...(entry.result as T), cachedAt: entry.cachedAt }
+  } catch (error) {
+    console.warn("Analysis cache read failed:", error)
+    return undefined
+  }
+}
+
+export async function writeCachedAnalysis(store: AnalysisCacheStore, key: string, result: unknown) {
+  try {
+    await store.set(key, { result, cachedAt: new Date().toISOString() })
+  } catch (error) {
+    console.warn("Analysis cache write failed:", error)
+  }
+}
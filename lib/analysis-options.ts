@@ -0,0 +1,21 @@
+import type { AnalysisCacheStore } from "@/lib/analysis-cache"
+import type { ImagePair } from "@/lib/angle-pairing"
+import type { LocalBarcodeScan } from "@/lib/barcode-check"
+import type { ProgressListener } from "@/lib/analysis-progress"
+import type { OrderManifest } from "@/lib/order-manifest"
+import type { VisionProvider } from "@/lib/vision-provider"
+
+// Shared by analyzeImages and analyzeMultipleImages
+export interface AnalysisOptions {
+  provider?: VisionProvider // defaults to getVisionProvider()
+  cache?: AnalysisCacheStore | null // results are keyed by image hashes, model and prompt version
+  onProgress?: ProgressListener // stage, parsing and retry events as the pipeline runs
+  signal?: AbortSignal // cancels the analysis between and during stages
+  stageTimeoutMs?: number // deadline for each model stage, retries included
+}
+
+export interface MultiImageAnalysisOptions extends AnalysisOptions {
+  manifest?: OrderManifest // what was ordered; adds an order check to the prompts and verdict
+  barcodes?: LocalBarcodeScan // decoded in the browser, cross-checked against the model's reading
+  pairing?: ImagePair[] // confirmed packaging↔delivery pairs; otherwise the model pairs the images
+}
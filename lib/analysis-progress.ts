@@ -0,0 +1,76 @@
+import type { VisionRetryAttempt } from "@/lib/vision-provider"
+
+export type AnalysisStage =
+  | "encoding"
+  | "cache"
+  | "identification"
+  | "similarity"
+  | "product_identification"
+  | "identifier_extraction"
+  | "angle_classification"
+  | "multi_angle"
+  | "parsing"
+  | "pixel_comparison"
+  | "aggregation"
+
+export type AnalysisProgressEvent =
+  | {
+      type: "stage"
+      stage: AnalysisStage
+      status: "started" | "completed"
+      progress: number // 0-100, share of the planned work already completed
+      message: string
+    }
+  | { type: "retry"; attempt: VisionRetryAttempt; progress: number; message: string }
+
+export type ProgressListener = (event: AnalysisProgressEvent) => void
+
+// "product_identification" -> "product identification", for messages
+export const formatStageName = (stage: string) => stage.replace(/_/g, " ")
+
+// Relative cost of each stage in a pipeline; stages left out of the plan don't move the bar
+export type ProgressPlan = Partial<Record<AnalysisStage, number>>
+
+export function createProgressReporter(plan: ProgressPlan, onProgress?: ProgressListener) {
+  const total = Object.values(plan).reduce((sum, weight) => sum + (weight ?? 0), 0)
+  const completed = new Set<AnalysisStage>()
+
+  const progress = () => {
+    const done = [...completed].reduce((sum, stage) => sum + (plan[stage] ?? 0), 0)
+    return total > 0 ? Math.round((done / total) * 100) : 0
+  }
+
+  return {
+    start(stage: AnalysisStage, message: string) {
+      onProgress?.({ type: "stage", stage, status: "started", progress: progress(), message })
+    },
+
+    complete(stage: AnalysisStage, message: string) {
+      completed.add(stage)
+      onProgress?.({ type: "stage", stage, status: "completed", progress: progress(), message })
+    },
+
+    // Marks a planned stage as done without announcing it, e.g. similarity after a mismatch
+    skip(stage: AnalysisStage) {
+      completed.add(stage)
+    },
+
+    // Marks every planned stage as done, e.g. when a cached result short-circuits the pipeline
+    finish(stage: AnalysisStage, message: string) {
+      for (const planned of Object.keys(plan) as AnalysisStage[]) completed.add(planned)
+      onProgress?.({ type: "stage", stage, status: "completed", progress: 100, message })
+    },
+
+    retry(attempt: VisionRetryAttempt) {
+      const seconds = Math.ceil(attempt.delayMs / 1000)
+      onProgress?.({
+        type: "retry",
+        attempt,
+        progress: progress(),
+        message: `${attempt.reason} Retrying ${formatStageName(attempt.stage)} (attempt ${attempt.attempt} of ${attempt.maxAttempts}) in ${seconds}s...`,
+      })
+    },
+  }
+}
+
+export type ProgressReporter = ReturnType<typeof createProgressReporter>
@@ -0,0 +1,278 @@
+import { z } from "zod"
+
+// Expected JSON for each prompt. Scores are clamped to 0-100 rather than rejected,
+// since a model answering 105 still meant "identical".
+const score = z
+  .number()
+  .finite()
+  .describe("Score from 0 to 100")
+  .transform((value) => Math.min(100, Math.max(0, value)))
+
+const lowercaseEnum = <const T extends [string, ...string[]]>(values: T) =>
+  z.preprocess((value) => (typeof value === "string" ? value.trim().toLowerCase() : value), z.enum(values))
+
+// Box edges as fractions of the image size, origin top-left; clamped like scores
+const fraction = z
+  .number()
+  .finite()
+  .describe("Fraction of the image size, 0 to 1")
+  .transform((value) => Math.min(1, Math.max(0, value)))
+
+export const severitySchema = lowercaseEnum(["low", "medium", "high"])
+export const matchQualitySchema = lowercaseEnum(["excellent", "good", "fair", "poor"])
+export const identifierTypeSchema = lowercaseEnum(["serial", "imei", "ean", "upc", "batch"])
+export const angleLabelSchema = lowercaseEnum(["front", "back", "left", "right", "top", "bottom", "label", "detail"])
+
+// Where a difference is visible. Image indices count within their own side.
+export function createRegionSchema(packagingCount: number, deliveryCount: number) {
+  return z
+    .object({
+      side: lowercaseEnum(["packaging", "delivery"]),
+      image_index: z.number().int().min(0),
+      box: z.object({ x: fraction, y: fraction, width: fraction, height: fraction }),
+    })
+    .superRefine((region, context) => {
+      const count = region.side === "packaging" ? packagingCount : deliveryCount
+      if (region.image_index >= count) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["image_index"],
+          message: `${region.side} image index must be between 0 and ${count - 1}`,
+        })
+      }
+    })
+}
+
+const productAnalysisSchema = z.object({
+  product_name: z.string().min(1),
+  key_features: z.array(z.string()),
+  condition: z.string(),
+  completeness: z.string(),
+  quality_indicators: z.array(z.string()),
+})
+
+export const identificationSchema = z.object({
+  packaging_analysis: productAnalysisSchema,
+  delivery_analysis: productAnalysisSchema,
+  initial_comparison: z.object({
+    products_match: z.boolean(),
+    confidence_level: score,
+    obvious_differences: z.array(z.string()),
+    concerns: z.array(z.string()),
+  }),
+})
+
+export const similaritySchema = z.object({
+  similarity_percentage: score,
+  detailed_differences: z.array(
+    z.object({
+      category: z.string().min(1),
+      description: z.string().min(1),
+      severity: severitySchema,
+      regions: z.array(createRegionSchema(1, 1)).default([]),
+    }),
+  ),
+  technical_analysis: z.object({
+    color_variation: z.string(),
+    condition_change: z.string(),
+    completeness_score: score,
+    packaging_integrity: z.string(),
+    quality_assessment: z.string(),
+  }),
+  visual_differences: z.string(),
+  summary: z.string().min(1),
+  recommendations: z.array(z.string()),
+})
+
+// The model's reading of one image set against the order manifest, when one is given
+export const orderAssessmentSchema = z.object({
+  matches_order: z.boolean(),
+  discrepancies: z.array(z.string()),
+  visible_accessories: z.array(z.string()),
+  visible_quantity: z.number().int().nonnegative().describe("Units of the ordered product visible; 0 if unclear"),
+})
+
+// Run separately on the packaging and the delivery images so neither side can bias the other.
+// With an order manifest the order assessment is required, since every order check rests on it.
+export function createSideIdentificationSchema(hasManifest: boolean) {
+  return z.object({
+    product_name: z.string().min(1),
+    brand: z.string(),
+    model: z.string(),
+    variant: z.string().describe("Colour, capacity, size or edition; \"unknown\" if not visible"),
+    category: z.string(),
+    key_identifiers: z.array(z.string()),
+    confidence_level: score,
+    order_match: hasManifest ? orderAssessmentSchema : orderAssessmentSchema.optional(),
+  })
+}
+
+// Also run per side; image indices refer to that side's images only
+export function createIdentifierExtractionSchema(imageCount: number) {
+  return z.object({
+    identifiers: z.array(
+      z.object({
+        type: identifierTypeSchema,
+        value: z.string().min(1).describe("Exactly as printed"),
+        image_index: z
+          .number()
+          .int()
+          .min(0)
+          .max(imageCount - 1, { message: `Image index must be between 0 and ${imageCount - 1}` }),
+        location: z.string().describe("Where it was read, e.g. box label, back of device"),
+      }),
+    ),
+  })
+}
+
+// Run per side before the analysis; every image gets exactly one entry, and a template slot
+// ("none" if it fills none) when the category has an angle template. The slot is required then,
+// as a missing one would show up as an unfilled shot on the checklist.
+export function createAngleClassificationSchema(imageCount: number, slotIds: string[] = []) {
+  const slotSchema = lowercaseEnum(["none", ...slotIds])
+  return z
+    .object({
+      images: z
+        .array(
+          z.object({
+            image_index: z
+              .number()
+              .int()
+              .min(0)
+              .max(imageCount - 1, { message: `Image index must be between 0 and ${imageCount - 1}` }),
+            angle: angleLabelSchema,
+            confidence: score,
+            alternative_angle: angleLabelSchema.optional().describe("Second most likely angle, if any"),
+            slot: slotIds.length > 0 ? slotSchema : slotSchema.optional(),
+          }),
+        )
+        .min(imageCount)
+        .max(imageCount),
+    })
+    .superRefine(({ images }, context) => {
+      const seen = new Set<number>()
+      images.forEach(({ image_index }, index) => {
+        if (seen.has(image_index)) {
+          context.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["images", index, "image_index"],
+            message: `Image ${image_index} is classified more than once; classify each image exactly once`,
+          })
+        }
+        seen.add(image_index)
+      })
+    })
+}
+
+const imageSetAnalysisSchema = z.object({
+  total_images: z.number().int().nonnegative(),
+  angles_covered: z.array(z.string()),
+  condition_summary: z.string(),
+  completeness: z.string(),
+})
+
+// Image indices are only meaningful for the images actually sent, so the schema is built per request.
+// With a confirmed pairing the model must compare exactly those pairs.
+export function createMultiAngleSchema(
+  packagingCount: number,
+  deliveryCount: number,
+  pairs: Array<{ packagingIndex: number; deliveryIndex: number }> = [],
+) {
+  const imageIndex = (count: number) =>
+    z
+      .number()
+      .int()
+      .min(0)
+      .max(count - 1, { message: `Image index must be between 0 and ${count - 1}` })
+
+  return z
+    .object({
+      product_identification: z.object({
+        product_name: z.string().min(1),
+        category: z.string(),
+        key_identifiers: z.array(z.string()),
+      }),
+      packaging_analysis: imageSetAnalysisSchema,
+      delivery_analysis: imageSetAnalysisSchema,
+      angle_comparisons: z
+        .array(
+          z.object({
+            angle: z.string().min(1),
+            packaging_image_index: imageIndex(packagingCount),
+            delivery_image_index: imageIndex(deliveryCount),
+            similarity_percentage: score,
+            differences: z.array(
+              z.object({
+                category: z.string().min(1),
+                description: z.string().min(1),
+                severity: severitySchema,
+                regions: z.array(createRegionSchema(packagingCount, deliveryCount)).default([]),
+              }),
+            ),
+            match_quality: matchQualitySchema,
+          }),
+        )
+        .min(1),
+      overall_assessment: z.object({
+        products_match: z.boolean(),
+        overall_similarity: score,
+        confidence_level: score,
+        comprehensive_differences: z.array(
+          z.object({
+            category: z.string().min(1),
+            description: z.string().min(1),
+            severity: severitySchema,
+          }),
+        ),
+        missing_angles: z.array(z.string()),
+        quality_concerns: z.array(z.string()),
+      }),
+      technical_analysis: z.object({
+        best_matching_angles: z.array(z.string()),
+        worst_matching_angles: z.array(z.string()),
+        coverage_completeness: score,
+        validation_reliability: lowercaseEnum(["high", "medium", "low"]),
+      }),
+      recommendations: z.array(z.string()),
+    })
+    .superRefine(({ angle_comparisons }, context) => {
+      const key = (packagingIndex: number, deliveryIndex: number) => `${packagingIndex}:${deliveryIndex}`
+      const expected = new Set(pairs.map((pair) => key(pair.packagingIndex, pair.deliveryIndex)))
+      if (expected.size === 0) return
+
+      const compared = new Set<string>()
+      angle_comparisons.forEach((comparison, index) => {
+        const pair = key(comparison.packaging_image_index, comparison.delivery_image_index)
+        compared.add(pair)
+        if (!expected.has(pair)) {
+          context.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["angle_comparisons", index],
+            message: `Packaging image ${comparison.packaging_image_index} and delivery image ${comparison.delivery_image_index} are not one of the given pairs`,
+          })
+        }
+      })
+      pairs
+        .filter((pair) => !compared.has(key(pair.packagingIndex, pair.deliveryIndex)))
+        .forEach((pair) =>
+          context.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["angle_comparisons"],
+            message: `Missing the comparison of packaging image ${pair.packagingIndex} with delivery image ${pair.deliveryIndex}`,
+          }),
+        )
+    })
+}
+
+export type Severity = z.infer<typeof severitySchema>
+export type MatchQuality = z.infer<typeof matchQualitySchema>
+export type IdentifierType = z.infer<typeof identifierTypeSchema>
+export type AngleLabel = z.infer<typeof angleLabelSchema>
+export type AngleClassificationResponse = z.infer<ReturnType<typeof createAngleClassificationSchema>>
+export type RegionResponse = z.infer<ReturnType<typeof createRegionSchema>>
+export type IdentificationResponse = z.infer<typeof identificationSchema>
+export type OrderAssessment = z.infer<typeof orderAssessmentSchema>
+export type SideIdentificationResponse = z.infer<ReturnType<typeof createSideIdentificationSchema>>
+export type IdentifierExtractionResponse = z.infer<ReturnType<typeof createIdentifierExtractionSchema>>
+export type SimilarityResponse = z.infer<typeof similaritySchema>
+export type MultiAngleResponse = z.infer<ReturnType<typeof createMultiAngleSchema>>
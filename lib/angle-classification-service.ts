@@ -0,0 +1,131 @@
+// Labels every uploaded image with the angle it shows, assigns it to the category's template
+// slots and proposes the packaging↔delivery pairing, before the analysis runs, so the user
+// can fill the gaps and confirm or repair the pairs
+import { computeAnalysisCacheKey, readCachedAnalysis, writeCachedAnalysis } from "@/lib/analysis-cache"
+import { DEFAULT_STAGE_TIMEOUT_MS, withStageTimeout } from "@/lib/abort"
+import type { AnalysisOptions } from "@/lib/analysis-options"
+import { createProgressReporter } from "@/lib/analysis-progress"
+import { createAngleClassificationSchema } from "@/lib/analysis-schemas"
+import {
+  ANGLE_LABELS,
+  proposePairing,
+  toAngleClassifications,
+  type AngleClassificationResult,
+} from "@/lib/angle-pairing"
+import { describeAngleTemplate, type AngleTemplate } from "@/lib/angle-templates"
+import { encodeImage, hashVisionImage } from "@/lib/image-encoding"
+import { generateValidated } from "@/lib/structured-output"
+import { getVisionProvider, type VisionImage } from "@/lib/vision-provider"
+
+// Bump whenever the prompt or response schema changes so cached results are not reused
+const PROMPT_VERSION = "angle-classification/3"
+
+export interface AngleClassificationOptions extends AnalysisOptions {
+  template?: AngleTemplate // required shots for the product category
+}
+
+function buildAngleClassificationPrompt(side: "packaging" | "delivery", imageCount: number, template?: AngleTemplate) {
+  const slotSection = template
+    ? `
+
+The photos should cover these required shots for a ${template.label.toLowerCase()}:
+${describeAngleTemplate(template)}
+
+Assign each image to the slot it fills best, or "none" if it fills none. Several images may fill the same slot.`
+    : ""
+  const slotField = template ? `, "slot": "${template.slots.map((slot) => slot.id).join("/")}/none"` : ""
+
+  return `You are sorting ${imageCount} ${side} photo(s) of one product by the angle each one shows.
+
+Label every image with exactly one angle:
+- front, back, left, right, top, bottom: the side of the product (or its box) facing the camera
+- label: a close-up of a label, sticker or printed identifiers
+- detail: any other close-up (a port, a corner, an accessory, damage)
+
+Give your confidence (0-100) and, if the image could also be read as another angle, that alternative.${slotSection}
+
+Respond in JSON format:
+{
+  "images": [
+    { "image_index": 0, "angle": "${ANGLE_LABELS.join("/")}", "confidence": 0-100, "alternative_angle": "back"${slotField} }
+  ]
+}
+
+image_index is 0-based within these ${imageCount} image(s); include every image exactly once.`
+}
+
+export async function classifyImageAngles(
+  packagingImages: File[],
+  deliveryImages: File[],
+  {
+    provider = getVisionProvider(),
+    cache,
+    onProgress,
+    signal,
+    stageTimeoutMs = DEFAULT_STAGE_TIMEOUT_MS,
+    template,
+  }: AngleClassificationOptions = {},
+): Promise<AngleClassificationResult> {
+  const progress = createProgressReporter({ encoding: 10, angle_classification: 80, parsing: 10 }, onProgress)
+
+  progress.start("encoding", "Encoding images...")
+  const packagingEncoded = await Promise.all(packagingImages.map((image) => encodeImage(image)))
+  const deliveryEncoded = await Promise.all(deliveryImages.map((image) => encodeImage(image)))
+  progress.complete("encoding", `Encoded ${packagingImages.length + deliveryImages.length} images`)
+  signal?.throwIfAborted()
+
+  const cacheKey =
+    cache &&
+    (await computeAnalysisCacheKey({
+      kind: "angles",
+      model: provider.model,
+      promptVersion: PROMPT_VERSION,
+      packagingHashes: await Promise.all(packagingEncoded.map(hashVisionImage)),
+      deliveryHashes: await Promise.all(deliveryEncoded.map(hashVisionImage)),
+      inputs: { template },
+    }))
+
+  if (cache && cacheKey) {
+    const cached = await readCachedAnalysis<AngleClassificationResult>(cache, cacheKey)
+    if (cached) {
+      progress.finish("cache", "Loaded cached angle labels for these images")
+      return cached
+    }
+  }
+
+  // Each side on its own images only, like product identification. A side without images yet
+  // is skipped so the checklist can fill in while the other side is still being photographed.
+  progress.start("angle_classification", "Labelling the angle of each image...")
+  const classifySide = async (side: "packaging" | "delivery", images: VisionImage[]) => {
+    if (images.length === 0) return []
+    const response = await withStageTimeout("angle_classification", stageTimeoutMs, signal, (stageSignal) =>
+      generateValidated(
+        provider,
+        {
+          stage: "angle_classification",
+          prompt: buildAngleClassificationPrompt(side, images.length, template),
+          images,
+          packagingImageCount: side === "packaging" ? images.length : 0,
+          onRetry: progress.retry,
+          signal: stageSignal,
+        },
+        createAngleClassificationSchema(
+          images.length,
+          template?.slots.map((slot) => slot.id),
+        ),
+        progress,
+      ),
+    )
+    return toAngleClassifications(response)
+  }
+
+  const [packaging, delivery] = await Promise.all([
+    classifySide("packaging", packagingEncoded),
+    classifySide("delivery", deliveryEncoded),
+  ])
+  const result: AngleClassificationResult = { packaging, delivery, pairs: proposePairing(packaging, delivery) }
+  progress.complete("angle_classification", `Proposed ${result.pairs.length} image pairs`)
+
+  if (cache && cacheKey) await writeCachedAnalysis(cache, cacheKey, result)
+  return result
+}
@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest"
+import type { AngleLabel } from "@/lib/analysis-schemas"
+import {
+  angleAgreement,
+  moveDeliveryImage,
+  parseImagePairing,
+  proposePairing,
+  solveAssignment,
+  type AngleClassification,
+  type ImagePair,
+} from "@/lib/angle-pairing"
+
+const label = (imageIndex: number, angle: AngleLabel, confidence = 90): AngleClassification => ({
+  imageIndex,
+  angle,
+  confidence,
+})
+
+const totalCost = (cost: number[][], assignment: number[]) =>
+  assignment.reduce((sum, column, row) => sum + cost[row][column], 0)
+
+// Every way of giving each row its own column
+function bruteForceMinimum(cost: number[][]) {
+  const columns = cost[0].length
+  let best = Infinity
+  const visit = (row: number, used: Set<number>, sum: number) => {
+    if (row === cost.length) {
+      best = Math.min(best, sum)
+      return
+    }
+    for (let column = 0; column < columns; column++) {
+      if (used.has(column)) continue
+      used.add(column)
+      visit(row + 1, used, sum + cost[row][column])
+      used.delete(column)
+    }
+  }
+  visit(0, new Set(), 0)
+  return best
+}
+
+describe("solveAssignment", () => {
+  it("finds the cheapest one-to-one assignment", () => {
+    const cost = [
+      [4, 1, 3],
+      [2, 0, 5],
+      [3, 2, 2],
+    ]
+    const assignment = solveAssignment(cost)
+    expect(new Set(assignment).size).toBe(3)
+    expect(totalCost(cost, assignment)).toBe(5)
+  })
+
+  it("matches a brute-force search on random rectangular matrices", () => {
+    let seed = 7
+    const random = () => ((seed = (seed * 16807) % 2147483647) / 2147483647)
+    for (let trial = 0; trial < 30; trial++) {
+      const rows = 1 + Math.floor(random() * 4)
+      const columns = rows + Math.floor(random() * 3)
+      const cost = Array.from({ length: rows }, () => Array.from({ length: columns }, () => Math.round(random() * 100)))
+      const assignment = solveAssignment(cost)
+      expect(new Set(assignment).size).toBe(rows)
+      expect(totalCost(cost, assignment)).toBe(bruteForceMinimum(cost))
+    }
+  })
+
+  it("rejects more rows than columns", () => {
+    expect(() => solveAssignment([[1], [2]])).toThrow()
+    expect(solveAssignment([])).toEqual([])
+  })
+})
+
+describe("angleAgreement", () => {
+  it("is high for the same confident angle and low for different ones", () => {
+    expect(angleAgreement(label(0, "front"), label(0, "front"))).toBeGreaterThan(0.8)
+    expect(angleAgreement(label(0, "front"), label(0, "back"))).toBeLessThan(0.05)
+  })
+
+  it("counts the alternative angle", () => {
+    const unsure = { ...label(0, "left", 60), alternativeAngle: "right" as const }
+    const withoutAlternative = angleAgreement(label(0, "left", 60), label(0, "right"))
+    expect(angleAgreement(unsure, label(0, "right"))).toBeGreaterThan(withoutAlternative)
+  })
+})
+
+describe("proposePairing", () => {
+  it("pairs images by angle regardless of upload order", () => {
+    const pairs = proposePairing(
+      [label(0, "front"), label(1, "back"), label(2, "top")],
+      [label(0, "top"), label(1, "front"), label(2, "back")],
+    )
+    expect(pairs.map((pair) => [pair.packagingIndex, pair.deliveryIndex])).toEqual([
+      [0, 1],
+      [1, 2],
+      [2, 0],
+    ])
+    expect(pairs.every((pair) => !pair.manual)).toBe(true)
+  })
+
+  it("leaves the extra images of the larger side unpaired", () => {
+    const pairs = proposePairing([label(0, "back")], [label(0, "front"), label(1, "back"), label(2, "top")])
+    expect(pairs.map((pair) => [pair.packagingIndex, pair.deliveryIndex])).toEqual([[0, 1]])
+  })
+
+  it("keeps fixed pairs and pairs the rest around them", () => {
+    const fixed: ImagePair = { packagingIndex: 0, deliveryIndex: 1, angle: "front", agreement: 0, manual: true }
+    const pairs = proposePairing(
+      [label(0, "front"), label(1, "back")],
+      [label(0, "front"), label(1, "back")],
+      [fixed],
+    )
+    expect(pairs).toEqual([fixed, expect.objectContaining({ packagingIndex: 1, deliveryIndex: 0, manual: false })])
+  })
+})
+
+describe("moveDeliveryImage", () => {
+  const sides = {
+    packaging: [label(0, "front"), label(1, "back")],
+    delivery: [label(0, "front"), label(1, "back")],
+  }
+  const pairs = proposePairing(sides.packaging, sides.delivery)
+
+  it("swaps the rows when the image was paired elsewhere", () => {
+    const moved = moveDeliveryImage(sides, pairs, 0, 1)
+    expect(moved.map((pair) => [pair.packagingIndex, pair.deliveryIndex, pair.manual])).toEqual([
+      [0, 1, true],
+      [1, 0, true],
+    ])
+  })
+
+  it("clears a row", () => {
+    expect(moveDeliveryImage(sides, pairs, 0, null)).toEqual([pairs[1]])
+  })
+})
+
+describe("parseImagePairing", () => {
+  const pair = { packagingIndex: 0, deliveryIndex: 1, angle: "front", agreement: 0.5, manual: true }
+
+  it("accepts a pairing of the uploaded images", () => {
+    expect(parseImagePairing(JSON.stringify([pair]), 2, 2)).toEqual([pair])
+  })
+
+  it("rejects malformed, empty, out-of-range and duplicate pairings", () => {
+    expect(() => parseImagePairing("{", 2, 2)).toThrow("not valid JSON")
+    expect(() => parseImagePairing(JSON.stringify([{ ...pair, angle: "sideways" }]), 2, 2)).toThrow("Invalid")
+    expect(() => parseImagePairing("[]", 2, 2)).toThrow("at least one pair")
+    expect(() => parseImagePairing(JSON.stringify([pair]), 2, 1)).toThrow("at most once")
+    const duplicate = JSON.stringify([pair, { ...pair, packagingIndex: 1 }])
+    expect(() => parseImagePairing(duplicate, 2, 2)).toThrow("at most once")
+  })
+})
@@ -0,0 +1,236 @@
+// Which packaging image is compared with which delivery image. Each image is labelled with
+// an angle first; the pairing is then the one-to-one assignment with the best total agreement
+// between those labels, proposed to the user before the analysis runs.
+import { z } from "zod"
+import type { AngleClassificationResponse, AngleLabel } from "@/lib/analysis-schemas"
+
+export const ANGLE_LABELS: AngleLabel[] = ["front", "back", "left", "right", "top", "bottom", "label", "detail"]
+
+export interface AngleClassification {
+  imageIndex: number // within its own side's images
+  angle: AngleLabel
+  confidence: number // 0-100
+  alternativeAngle?: AngleLabel
+  slot?: string // the angle template slot it fills, see angle-templates
+}
+
+export interface ImagePair {
+  packagingIndex: number
+  deliveryIndex: number
+  angle: AngleLabel // of the packaging image
+  agreement: number // 0-1, how likely both images show the same angle, from their labels
+  manual: boolean // set by the user rather than proposed
+}
+
+export interface AngleClassificationResult {
+  packaging: AngleClassification[]
+  delivery: AngleClassification[]
+  pairs: ImagePair[]
+}
+
+export function toAngleClassifications({ images }: AngleClassificationResponse): AngleClassification[] {
+  return images
+    .map((image) => ({
+      imageIndex: image.image_index,
+      angle: image.angle,
+      confidence: image.confidence,
+      alternativeAngle: image.alternative_angle,
+      slot: image.slot === "none" ? undefined : image.slot,
+    }))
+    .sort((a, b) => a.imageIndex - b.imageIndex)
+}
+
+// The model's confidence goes to its angle; the rest to its second guess, or is spread evenly
+function angleDistribution({ angle, confidence, alternativeAngle }: AngleClassification) {
+  const primary = confidence / 100
+  const others = ANGLE_LABELS.filter((label) => label !== angle)
+  return new Map<AngleLabel, number>(
+    ANGLE_LABELS.map((label) => {
+      if (label === angle) return [label, primary]
+      if (alternativeAngle && alternativeAngle !== angle) return [label, label === alternativeAngle ? 1 - primary : 0]
+      return [label, (1 - primary) / others.length]
+    }),
+  )
+}
+
+// Probability that both images show the same angle
+export function angleAgreement(packaging: AngleClassification, delivery: AngleClassification) {
+  const packagingAngles = angleDistribution(packaging)
+  const deliveryAngles = angleDistribution(delivery)
+  return ANGLE_LABELS.reduce((sum, label) => sum + packagingAngles.get(label)! * deliveryAngles.get(label)!, 0)
+}
+
+// Hungarian algorithm (Kuhn-Munkres with potentials), O(n^2 m) for n rows <= m columns.
+// Returns the column assigned to each row with the minimum total cost.
+export function solveAssignment(cost: number[][]): number[] {
+  const rows = cost.length
+  const columns = rows > 0 ? cost[0].length : 0
+  if (rows === 0) return []
+  if (rows > columns) throw new Error("solveAssignment needs at least as many columns as rows")
+
+  // 1-based, with row/column 0 as the virtual start
+  const rowPotential = new Array<number>(rows + 1).fill(0)
+  const columnPotential = new Array<number>(columns + 1).fill(0)
+  const rowOfColumn = new Array<number>(columns + 1).fill(0)
+  const previousColumn = new Array<number>(columns + 1).fill(0)
+
+  for (let row = 1; row <= rows; row++) {
+    rowOfColumn[0] = row
+    let column = 0
+    const minSlack = new Array<number>(columns + 1).fill(Infinity)
+    const used = new Array<boolean>(columns + 1).fill(false)
+
+    do {
+      used[column] = true
+      const currentRow = rowOfColumn[column]
+      let delta = Infinity
+      let nextColumn = 0
+      for (let candidate = 1; candidate <= columns; candidate++) {
+        if (used[candidate]) continue
+        const slack = cost[currentRow - 1][candidate - 1] - rowPotential[currentRow] - columnPotential[candidate]
+        if (slack < minSlack[candidate]) {
+          minSlack[candidate] = slack
+          previousColumn[candidate] = column
+        }
+        if (minSlack[candidate] < delta) {
+          delta = minSlack[candidate]
+          nextColumn = candidate
+        }
+      }
+      for (let candidate = 0; candidate <= columns; candidate++) {
+        if (used[candidate]) {
+          rowPotential[rowOfColumn[candidate]] += delta
+          columnPotential[candidate] -= delta
+        } else {
+          minSlack[candidate] -= delta
+        }
+      }
+      column = nextColumn
+    } while (rowOfColumn[column] !== 0)
+
+    // Flip the augmenting path
+    do {
+      const previous = previousColumn[column]
+      rowOfColumn[column] = rowOfColumn[previous]
+      column = previous
+    } while (column !== 0)
+  }
+
+  const assignment = new Array<number>(rows).fill(-1)
+  for (let column = 1; column <= columns; column++) {
+    if (rowOfColumn[column] !== 0) assignment[rowOfColumn[column] - 1] = column - 1
+  }
+  return assignment
+}
+
+// One pair per image on the smaller side; the leftover images of the larger side stay unpaired.
+// The fixed pairs are kept as they are and the rest proposed among the images they leave free.
+export function proposePairing(
+  allPackaging: AngleClassification[],
+  allDelivery: AngleClassification[],
+  fixed: ImagePair[] = [],
+): ImagePair[] {
+  const packaging = allPackaging.filter((image) => !fixed.some((pair) => pair.packagingIndex === image.imageIndex))
+  const delivery = allDelivery.filter((image) => !fixed.some((pair) => pair.deliveryIndex === image.imageIndex))
+  const transpose = packaging.length > delivery.length
+  const rows = transpose ? delivery : packaging
+  const columns = transpose ? packaging : delivery
+  const agreement = rows.map((row) =>
+    columns.map((column) => (transpose ? angleAgreement(column, row) : angleAgreement(row, column))),
+  )
+
+  const assignment = solveAssignment(agreement.map((scores) => scores.map((score) => 1 - score)))
+  const proposed = assignment.map((column, row): ImagePair => {
+    const [packagingImage, deliveryImage] = transpose ? [columns[column], rows[row]] : [rows[row], columns[column]]
+    return {
+      packagingIndex: packagingImage.imageIndex,
+      deliveryIndex: deliveryImage.imageIndex,
+      angle: packagingImage.angle,
+      agreement: Math.round(agreement[row][column] * 100) / 100,
+      manual: false,
+    }
+  })
+  return [...fixed, ...proposed].sort((a, b) => a.packagingIndex - b.packagingIndex)
+}
+
+// A drag-and-drop repair: puts deliveryIndex on packagingIndex's row, or clears the row for null.
+// If the delivery image was paired elsewhere, that row gets this row's previous image instead.
+export function moveDeliveryImage(
+  { packaging, delivery }: Pick<AngleClassificationResult, "packaging" | "delivery">,
+  pairs: ImagePair[],
+  packagingIndex: number,
+  deliveryIndex: number | null,
+): ImagePair[] {
+  const deliveryOf = new Map(pairs.map((pair) => [pair.packagingIndex, pair.deliveryIndex]))
+  const previousDelivery = deliveryOf.get(packagingIndex)
+  const sourceRow = pairs.find((pair) => pair.deliveryIndex === deliveryIndex)?.packagingIndex
+
+  if (deliveryIndex === null) deliveryOf.delete(packagingIndex)
+  else deliveryOf.set(packagingIndex, deliveryIndex)
+  if (sourceRow !== undefined && sourceRow !== packagingIndex) {
+    if (previousDelivery === undefined) deliveryOf.delete(sourceRow)
+    else deliveryOf.set(sourceRow, previousDelivery)
+  }
+
+  return [...deliveryOf.entries()]
+    .map(([packagingImage, deliveryImage]) => {
+      const unchanged = pairs.find(
+        (pair) => pair.packagingIndex === packagingImage && pair.deliveryIndex === deliveryImage,
+      )
+      if (unchanged) return unchanged
+      return {
+        packagingIndex: packagingImage,
+        deliveryIndex: deliveryImage,
+        angle: packaging[packagingImage].angle,
+        agreement: Math.round(angleAgreement(packaging[packagingImage], delivery[deliveryImage]) * 100) / 100,
+        manual: true,
+      }
+    })
+    .sort((a, b) => a.packagingIndex - b.packagingIndex)
+}
+
+// Sent by the client in the "pairing" form field after the user has confirmed or repaired it
+const imagePairingSchema = z.array(
+  z.object({
+    packagingIndex: z.number().int().min(0),
+    deliveryIndex: z.number().int().min(0),
+    angle: z.enum(ANGLE_LABELS as [AngleLabel, ...AngleLabel[]]),
+    agreement: z.number().min(0).max(1),
+    manual: z.boolean(),
+  }),
+)
+
+export function parseImagePairing(json: string, packagingCount: number, deliveryCount: number): ImagePair[] {
+  let raw: unknown
+  try {
+    raw = JSON.parse(json)
+  } catch {
+    throw new Error("The image pairing is not valid JSON")
+  }
+
+  const parsed = imagePairingSchema.safeParse(raw)
+  if (!parsed.success) throw new Error("Invalid image pairing")
+
+  // An empty list would leave the model to pair the images itself, against the user's edits
+  const pairs = parsed.data
+  if (pairs.length === 0) throw new Error("The image pairing must contain at least one pair")
+  const packagingIndices = new Set(pairs.map((pair) => pair.packagingIndex))
+  const deliveryIndices = new Set(pairs.map((pair) => pair.deliveryIndex))
+  if (
+    packagingIndices.size !== pairs.length ||
+    deliveryIndices.size !== pairs.length ||
+    pairs.some((pair) => pair.packagingIndex >= packagingCount || pair.deliveryIndex >= deliveryCount)
+  ) {
+    throw new Error("The image pairing must pair each uploaded image at most once")
+  }
+  return pairs
+}
+
+export function describeImagePairing(pairs: ImagePair[]) {
+  return pairs
+    .map(
+      (pair) =>
+        `- Packaging image ${pair.packagingIndex} ↔ delivery image ${pair.deliveryIndex} (${pair.angle}${pair.manual ? ", paired by the user" : ""})`,
+    )
+    .join("\n")
+}
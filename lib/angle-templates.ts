@@ -0,0 +1,124 @@
+// Required shots per product category. Each slot is one photo the courier should take on both
+// sides; angle classification assigns uploaded images to slots so gaps show before the analysis.
+// Add a category by adding a template here - slot ids must be snake_case and unique within it.
+import type { AngleClassification } from "@/lib/angle-pairing"
+
+// Outline shown over the live camera for the slot: the shape the subject should fill
+export type AngleGuide = "portrait" | "landscape" | "square"
+
+export interface AngleSlot {
+  id: string
+  label: string // short, for the checklist
+  description: string // what the photo must show; also given to the model
+  guide: AngleGuide
+}
+
+export interface AngleTemplate {
+  id: string
+  label: string
+  slots: AngleSlot[] // at most the per-side image limit
+}
+
+export const ANGLE_TEMPLATES: AngleTemplate[] = [
+  {
+    id: "general",
+    label: "General product",
+    slots: [
+      { id: "front", label: "Front", description: "the front of the product or its box", guide: "square" },
+      { id: "back", label: "Back", description: "the back of the product or its box", guide: "square" },
+      { id: "side", label: "Side", description: "either side of the product or its box", guide: "landscape" },
+      { id: "top", label: "Top", description: "the top of the product or its box", guide: "square" },
+      { id: "bottom", label: "Bottom", description: "the bottom of the product or its box", guide: "square" },
+    ],
+  },
+  {
+    id: "phone",
+    label: "Phone",
+    slots: [
+      { id: "screen", label: "Screen", description: "the screen side of the phone", guide: "portrait" },
+      { id: "back", label: "Back", description: "the back of the phone with the camera module", guide: "portrait" },
+      {
+        id: "ports",
+        label: "Ports",
+        description: "the edge with the charging port and speaker grilles",
+        guide: "landscape",
+      },
+      {
+        id: "imei_label",
+        label: "IMEI label",
+        description: "the box label or settings screen showing the IMEI",
+        guide: "landscape",
+      },
+    ],
+  },
+  {
+    id: "laptop",
+    label: "Laptop",
+    slots: [
+      { id: "lid", label: "Lid", description: "the closed lid", guide: "landscape" },
+      {
+        id: "keyboard",
+        label: "Keyboard & screen",
+        description: "the open laptop showing keyboard and screen",
+        guide: "landscape",
+      },
+      { id: "ports", label: "Ports", description: "the side edges with the ports", guide: "landscape" },
+      {
+        id: "serial_label",
+        label: "Serial label",
+        description: "the underside or box label with the serial number",
+        guide: "landscape",
+      },
+    ],
+  },
+  {
+    id: "shoes",
+    label: "Shoes",
+    slots: [
+      { id: "pair", label: "Both shoes", description: "both shoes side by side", guide: "landscape" },
+      { id: "soles", label: "Soles", description: "the soles of both shoes", guide: "portrait" },
+      {
+        id: "size_tag",
+        label: "Size tag",
+        description: "the size tag inside a shoe or the size on the box label",
+        guide: "square",
+      },
+    ],
+  },
+  {
+    id: "apparel",
+    label: "Apparel",
+    slots: [
+      { id: "front", label: "Front", description: "the garment laid flat, front side", guide: "portrait" },
+      { id: "back", label: "Back", description: "the garment laid flat, back side", guide: "portrait" },
+      { id: "tags", label: "Tags", description: "the brand, size and care tags", guide: "square" },
+    ],
+  },
+]
+
+export const DEFAULT_ANGLE_TEMPLATE_ID = "general"
+
+export function getAngleTemplate(id: string | null | undefined): AngleTemplate | undefined {
+  return ANGLE_TEMPLATES.find((template) => template.id === id)
+}
+
+export interface SlotCoverage {
+  slot: AngleSlot
+  imageIndices: number[] // images classified into the slot, within their side
+}
+
+export function checkSlotCoverage(template: AngleTemplate, classifications: AngleClassification[]): SlotCoverage[] {
+  return template.slots.map((slot) => ({
+    slot,
+    imageIndices: classifications
+      .filter((classification) => classification.slot === slot.id)
+      .map((classification) => classification.imageIndex),
+  }))
+}
+
+export const missingSlots = (coverage: SlotCoverage[]) =>
+  coverage.filter((entry) => entry.imageIndices.length === 0).map((entry) => entry.slot)
+
+export function describeAngleTemplate(template: AngleTemplate) {
+  return template.slots.map((slot) => `- slot "${slot.id}": ${slot.description}`).join("\n")
+}
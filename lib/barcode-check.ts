@@ -0,0 +1,124 @@
+// Cross-check of the barcodes decoded on-device against each other, the model-read
+// identifiers and the order manifest
+import { z } from "zod"
+import type { BarcodeFormat } from "@/lib/barcode-decoder"
+import { isValidGtin, normalizeIdentifier, type ExtractedIdentifier } from "@/lib/identifiers"
+import type { OrderManifest } from "@/lib/order-manifest"
+
+const decodedBarcodeSchema = z.object({
+  format: z.enum(["ean13", "upca", "code128", "qr"]),
+  value: z.string().min(1),
+})
+
+// Decoded barcodes per uploaded image, in upload order; sent in the "barcodes" form field
+export const localBarcodeScanSchema = z.object({
+  packaging: z.array(z.array(decodedBarcodeSchema)),
+  delivery: z.array(z.array(decodedBarcodeSchema)),
+})
+
+export type LocalBarcodeScan = z.infer<typeof localBarcodeScanSchema>
+
+export interface BarcodeComparison {
+  format: BarcodeFormat
+  value: string
+  packagingImages: number[] // 0-based indices of the images it was decoded from
+  deliveryImages: number[]
+  readByModel: boolean // the identifier extraction stage reported the same value
+}
+
+export type ManifestBarcodeStatus = "match" | "mismatch" | "not_found"
+
+export interface BarcodeCheck {
+  comparisons: BarcodeComparison[]
+  mismatch: boolean // product codes (EAN/UPC) decoded on both sides with none in common
+  manifest?: ManifestBarcodeStatus // only when an order manifest was given
+}
+
+export function parseLocalBarcodeScan(json: string): LocalBarcodeScan {
+  let raw: unknown
+  try {
+    raw = JSON.parse(json)
+  } catch {
+    throw new Error("The barcode scan results are not valid JSON")
+  }
+
+  const parsed = localBarcodeScanSchema.safeParse(raw)
+  if (!parsed.success) throw new Error("Invalid barcode scan results")
+  return parsed.data
+}
+
+const isProductCode = (format: BarcodeFormat) => format === "ean13" || format === "upca"
+
+// EAN-13 and UPC-A share one number space; a UPC-A is an EAN-13 with a leading zero
+const toGtin13 = (value: string) => value.padStart(13, "0")
+
+function comparableValue(format: BarcodeFormat, value: string) {
+  return isProductCode(format) ? toGtin13(value) : normalizeIdentifier(value)
+}
+
+export function compareBarcodes(
+  scan: LocalBarcodeScan,
+  modelIdentifiers: ExtractedIdentifier[],
+  manifest?: OrderManifest,
+): BarcodeCheck {
+  const comparisons = new Map<string, BarcodeComparison>()
+  const collect = (images: LocalBarcodeScan["packaging"], side: "packagingImages" | "deliveryImages") =>
+    images.forEach((barcodes, imageIndex) =>
+      barcodes.forEach(({ format, value }) => {
+        const key = `${isProductCode(format) ? "gtin" : format}:${comparableValue(format, value)}`
+        const comparison = comparisons.get(key) ?? {
+          format,
+          value,
+          packagingImages: [],
+          deliveryImages: [],
+          readByModel: false,
+        }
+        if (!comparison[side].includes(imageIndex)) comparison[side].push(imageIndex)
+        comparisons.set(key, comparison)
+      }),
+    )
+  collect(scan.packaging, "packagingImages")
+  collect(scan.delivery, "deliveryImages")
+
+  const modelValues = new Set(
+    modelIdentifiers.map((identifier) =>
+      identifier.type === "ean" || identifier.type === "upc" ? toGtin13(identifier.value) : identifier.value,
+    ),
+  )
+  const results = [...comparisons.values()].map((comparison) => ({
+    ...comparison,
+    readByModel: modelValues.has(comparableValue(comparison.format, comparison.value)),
+  }))
+
+  // Shipping labels and QR codes legitimately differ between the two sides; product codes must not
+  const productCodes = results.filter((comparison) => isProductCode(comparison.format))
+  const packedCodes = productCodes.filter((comparison) => comparison.packagingImages.length > 0)
+  const deliveredCodes = productCodes.filter((comparison) => comparison.deliveryImages.length > 0)
+  const mismatch =
+    packedCodes.length > 0 && deliveredCodes.length > 0 && !packedCodes.some((code) => deliveredCodes.includes(code))
+
+  return { comparisons: results, mismatch, manifest: manifest && checkManifestBarcode(manifest, results) }
+}
+
+// The SKU may itself be a barcode value (a GTIN, or an internal code on a Code 128 label)
+function checkManifestBarcode(manifest: OrderManifest, comparisons: BarcodeComparison[]): ManifestBarcodeStatus {
+  const sku = normalizeIdentifier(manifest.sku)
+  const skuIsGtin = isValidGtin(sku)
+  const expected = skuIsGtin ? toGtin13(sku) : sku
+
+  if (comparisons.some((comparison) => comparableValue(comparison.format, comparison.value) === expected)) {
+    return "match"
+  }
+  const productCodeFound = comparisons.some((comparison) => isProductCode(comparison.format))
+  return skuIsGtin && productCodeFound ? "mismatch" : "not_found"
+}
+
+export function describeBarcodeMismatch({ comparisons, mismatch }: BarcodeCheck) {
+  if (!mismatch) return []
+  const codes = (side: "packagingImages" | "deliveryImages") =>
+    comparisons
+      .filter((comparison) => isProductCode(comparison.format) && comparison[side].length > 0)
+      .map((comparison) => comparison.value)
+      .join(", ")
+  return [`Product barcode differs: packed ${codes("packagingImages")}, delivered ${codes("deliveryImages")}`]
+}
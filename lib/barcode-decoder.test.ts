@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest"
+import { decodeBarcodes } from "@/lib/barcode-decoder"
+import type { RgbaImage } from "@/lib/image-pixels"
+
+// Bar and space widths in modules, as printed: EAN-13 digit patterns of the L set (the G set is
+// each one reversed) and the first digit's parity over the left half
+const EAN_L = ["3211", "2221", "2122", "1411", "1132", "1231", "1114", "1312", "1213", "3112"]
+const EAN_PARITY = ["LLLLLL", "LLGLGG", "LLGGLG", "LLGGGL", "LGLLGG", "LGGLLG", "LGGGLL", "LGLGLG", "LGLGGL", "LGGLGL"]
+
+function eanWidths(code: string) {
+  const digits = [...code].map(Number)
+  const left = digits
+    .slice(1, 7)
+    .map((digit, index) => (EAN_PARITY[digits[0]][index] === "G" ? [...EAN_L[digit]].reverse().join("") : EAN_L[digit]))
+  const right = digits.slice(7).map((digit) => EAN_L[digit])
+  return `111${left.join("")}11111${right.join("")}111`
+}
+
+// Code 128 set B symbols for the text "Box-42", by symbol value
+const CODE128_PATTERNS: Record<number, string> = {
+  13: "122132", // -
+  18: "223211", // 2
+  20: "221231", // 4
+  34: "131123", // B
+  79: "134111", // o
+  88: "421211", // x
+  99: "113141", // the check symbol of "Box-42"
+  104: "211214", // start B
+}
+const CODE128_STOP = "2331112"
+
+function code128Widths(text: string) {
+  const values = [104, ...[...text].map((char) => char.charCodeAt(0) - 32)]
+  const check = values.reduce((sum, value, index) => sum + value * (index || 1), 0) % 103
+  return [...values, check].map((value) => CODE128_PATTERNS[value]).join("") + CODE128_STOP
+}
+
+// Bars start dark on a light quiet zone; rotation is in quarter turns
+function renderBarcode(widths: string, { module = 3, quarterTurns = 0 } = {}): RgbaImage {
+  const quietZone = new Array<number>(12 * module).fill(0)
+  const bars = [...widths].flatMap((width, index) =>
+    new Array<number>(Number(width) * module).fill(index % 2 === 0 ? 1 : 0),
+  )
+  const line = [...quietZone, ...bars, ...quietZone]
+  const length = line.length
+  const depth = 60
+  const vertical = quarterTurns % 2 === 1
+  const reversed = quarterTurns === 2 || quarterTurns === 3
+  const width = vertical ? depth : length
+  const height = vertical ? length : depth
+
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const position = vertical ? y : x
+      const dark = line[reversed ? length - 1 - position : position]
+      data.fill(dark ? 20 : 235, (y * width + x) * 4, (y * width + x) * 4 + 3)
+      data[(y * width + x) * 4 + 3] = 255
+    }
+  }
+  return { data, width, height }
+}
+
+describe("decodeBarcodes", () => {
+  it("reads an EAN-13 upright, upside down and at 90 degrees", () => {
+    const widths = eanWidths("4006381333931")
+    for (const quarterTurns of [0, 1, 2, 3]) {
+      const found = decodeBarcodes(renderBarcode(widths, { quarterTurns }))
+      expect(found).toEqual([{ format: "ean13", value: "4006381333931" }])
+    }
+  })
+
+  it("reports a leading zero EAN-13 as UPC-A", () => {
+    const found = decodeBarcodes(renderBarcode(eanWidths("0036000291452")))
+    expect(found).toEqual([{ format: "upca", value: "036000291452" }])
+  })
+
+  it("rejects an EAN-13 with a wrong check digit", () => {
+    expect(decodeBarcodes(renderBarcode(eanWidths("4006381333932")))).toEqual([])
+  })
+
+  it("reads Code 128 upright and upside down", () => {
+    const widths = code128Widths("Box-42")
+    for (const quarterTurns of [0, 2]) {
+      const found = decodeBarcodes(renderBarcode(widths, { quarterTurns }))
+      expect(found).toEqual([{ format: "code128", value: "Box-42" }])
+    }
+  })
+
+  it("finds nothing in a blank image", () => {
+    expect(decodeBarcodes(renderBarcode(""))).toEqual([])
+  })
+})
@@ -0,0 +1,328 @@
+// On-device barcode decoding over raw RGBA pixels - no canvas, DOM or network, so it runs
+// anywhere. EAN-13/UPC-A and Code 128 are decoded from scanlines; QR codes go through jsQR.
+import jsQR from "jsqr"
+import { isValidGtin } from "@/lib/identifiers"
+import { toLuminance, type RgbaImage } from "@/lib/image-pixels"
+
+export type BarcodeFormat = "ean13" | "upca" | "code128" | "qr"
+
+export interface DecodedBarcode {
+  format: BarcodeFormat
+  value: string
+}
+
+const SCANLINES_PER_AXIS = 40
+const MIN_CONTRAST = 40
+const MAX_PATTERN_ERROR = 0.4 // mean deviation per run, in modules
+
+// ---- Scanlines ------------------------------------------------------------------------
+
+// Rows and columns, so barcodes photographed at 90 degrees are read too
+function* scanlines(luminance: Uint8Array, width: number, height: number) {
+  const rowStep = Math.max(1, Math.floor(height / SCANLINES_PER_AXIS))
+  for (let y = Math.floor(rowStep / 2); y < height; y += rowStep) {
+    yield luminance.subarray(y * width, (y + 1) * width)
+  }
+
+  const columnStep = Math.max(1, Math.floor(width / SCANLINES_PER_AXIS))
+  for (let x = Math.floor(columnStep / 2); x < width; x += columnStep) {
+    const column = new Uint8Array(height)
+    for (let y = 0; y < height; y++) column[y] = luminance[y * width + x]
+    yield column
+  }
+}
+
+// The minimum (or maximum) of line[i - window, i + window) for every i, in linear time: the
+// deque holds the indices that can still become the extreme, best first
+function slidingExtremes(line: Uint8Array, window: number, isBetter: (a: number, b: number) => boolean) {
+  const extremes = new Uint8Array(line.length)
+  const deque = new Int32Array(line.length)
+  let head = 0
+  let tail = 0
+  let next = 0
+  for (let i = 0; i < line.length; i++) {
+    for (const end = Math.min(line.length, i + window); next < end; next++) {
+      while (tail > head && !isBetter(line[deque[tail - 1]], line[next])) tail--
+      deque[tail++] = next
+    }
+    while (deque[head] < i - window) head++
+    extremes[i] = line[deque[head]]
+  }
+  return extremes
+}
+
+// Local threshold (midpoint of the surrounding min and max) copes with uneven lighting.
+// Returns run widths starting and ending with a light run: even indices light, odd dark.
+function toRuns(line: Uint8Array): number[] {
+  const window = Math.max(16, Math.floor(line.length / 16))
+  const minima = slidingExtremes(line, window, (a, b) => a < b)
+  const maxima = slidingExtremes(line, window, (a, b) => a > b)
+  const runs: number[] = [0]
+  let dark = false
+
+  for (let i = 0; i < line.length; i++) {
+    const min = minima[i]
+    const max = maxima[i]
+    const isDark = max - min >= MIN_CONTRAST && line[i] < (min + max) / 2
+
+    if (isDark !== dark) {
+      runs.push(0)
+      dark = isDark
+    }
+    runs[runs.length - 1]++
+  }
+
+  if (dark) runs.push(0)
+  return runs
+}
+
+// Mean absolute deviation between measured runs and a module pattern, in modules
+function patternError(runs: number[], start: number, pattern: number[]) {
+  const modules = pattern.reduce((sum, width) => sum + width, 0)
+  let total = 0
+  for (let i = 0; i < pattern.length; i++) total += runs[start + i] ?? 0
+  if (total === 0) return Infinity
+
+  const unit = total / modules
+  let error = 0
+  for (let i = 0; i < pattern.length; i++) error += Math.abs(runs[start + i] / unit - pattern[i])
+  return error / pattern.length
+}
+
+// Index of the closest pattern, or -1 if none is within MAX_PATTERN_ERROR
+function bestMatch(runs: number[], start: number, patterns: number[][]) {
+  let index = -1
+  let error = MAX_PATTERN_ERROR
+  patterns.forEach((pattern, candidate) => {
+    const candidateError = patternError(runs, start, pattern)
+    if (candidateError < error) {
+      index = candidate
+      error = candidateError
+    }
+  })
+  return { index, error }
+}
+
+const toPattern = (widths: string) => [...widths].map(Number)
+
+// ---- EAN-13 / UPC-A -------------------------------------------------------------------
+
+// Light/dark module widths of each digit's L code; R codes are the same widths starting
+// with a bar and G codes are the L codes reversed.
+const EAN_L_PATTERNS = ["3211", "2221", "2122", "1411", "1132", "1231", "1114", "1312", "1213", "3112"].map(toPattern)
+const EAN_G_PATTERNS = EAN_L_PATTERNS.map((pattern) => [...pattern].reverse())
+const EAN_LG_PATTERNS = [...EAN_L_PATTERNS, ...EAN_G_PATTERNS]
+// Parity of the six left-hand digits encodes the first digit (L = 0, G = 1)
+const EAN_FIRST_DIGIT_PARITY = ["000000", "001011", "001101", "001110", "010011", "011001", "011100", "010101", "010110", "011010"]
+const EAN_GUARD = [1, 1, 1]
+const EAN_MIDDLE_GUARD = [1, 1, 1, 1, 1]
+const EAN_RUN_COUNT = 3 + 24 + 5 + 24 + 3
+
+// Six digits from runs[position]; parity has a "1" for each G code
+function readEanHalf(runs: number[], position: number, patterns: number[][]) {
+  let digits = ""
+  let parity = ""
+  for (let i = 0; i < 6; i++, position += 4) {
+    const { index: match } = bestMatch(runs, position, patterns)
+    if (match < 0) return null
+    digits += match % 10
+    parity += match >= 10 ? "1" : "0"
+  }
+  return { digits, parity }
+}
+
+const reverseText = (text: string) => [...text].reverse().join("")
+
+function decodeEan13(runs: number[]): DecodedBarcode | null {
+  for (let start = 1; start + EAN_RUN_COUNT <= runs.length; start += 2) {
+    if (patternError(runs, start, EAN_GUARD) >= MAX_PATTERN_ERROR) continue
+    const module = (runs[start] + runs[start + 1] + runs[start + 2]) / 3
+    if (runs[start - 1] < module * 3) continue // quiet zone
+
+    const first = readEanHalf(runs, start + 3, EAN_LG_PATTERNS)
+    if (!first) continue
+    // A barcode read the right way round never starts with a G code. Read backwards (upside
+    // down), the R codes of the right half have the G widths, so all six are G, and the left
+    // half follows with its digits in reverse order and L and G swapped.
+    const upsideDown = first.parity === "111111"
+
+    const middle = start + 3 + 24
+    if (patternError(runs, middle, EAN_MIDDLE_GUARD) >= MAX_PATTERN_ERROR) continue
+    const second = readEanHalf(runs, middle + 5, upsideDown ? EAN_LG_PATTERNS : EAN_L_PATTERNS)
+    if (!second) continue
+    if (patternError(runs, middle + 5 + 24, EAN_GUARD) >= MAX_PATTERN_ERROR) continue
+
+    const digits = upsideDown ? reverseText(second.digits) + reverseText(first.digits) : first.digits + second.digits
+    const parity = upsideDown
+      ? reverseText(second.parity).replace(/[01]/g, (bit) => (bit === "0" ? "1" : "0"))
+      : first.parity
+    const firstDigit = EAN_FIRST_DIGIT_PARITY.indexOf(parity)
+    if (firstDigit < 0) continue
+    const value = `${firstDigit}${digits}`
+    if (!isValidGtin(value)) continue
+
+    // UPC-A is an EAN-13 with a leading zero
+    return value.startsWith("0") ? { format: "upca", value: value.slice(1) } : { format: "ean13", value }
+  }
+  return null
+}
+
+// ---- Code 128 -------------------------------------------------------------------------
+
+// Bar/space module widths for symbol values 0-105
+const CODE128_PATTERNS = [
+  "212222", "222122", "222221", "121223", "121322", "131222", "122213", "122312", "132212", "221213",
+  "221312", "231212", "112232", "122132", "122231", "113222", "123122", "123221", "223211", "221132",
+  "221231", "213212", "223112", "312131", "311222", "321122", "321221", "312212", "322112", "322211",
+  "212123", "212321", "232121", "111323", "131123", "131321", "112313", "132113", "132311", "211313",
+  "231113", "231311", "112133", "112331", "132131", "113123", "113321", "133121", "313121", "211331",
+  "231131", "213113", "213311", "213131", "311123", "311321", "331121", "312113", "312311", "332111",
+  "314111", "221411", "431111", "111224", "111422", "121124", "121421", "141122", "141221", "112214",
+  "112412", "122114", "122411", "142112", "142211", "241211", "221114", "413111", "241112", "134111",
+  "111242", "121142", "121241", "114212", "124112", "124211", "411212", "421112", "421211", "212141",
+  "214121", "412121", "111143", "111341", "131141", "114113", "114311", "411113", "411311", "113141",
+  "114131", "311141", "411131", "211412", "211214", "211232",
+].map(toPattern)
+const CODE128_STOP = toPattern("2331112")
+// Read upside down every symbol's widths come backwards, the stop symbol first
+const CODE128_REVERSED_PATTERNS = CODE128_PATTERNS.map((pattern) => [...pattern].reverse())
+const CODE128_REVERSED_STOP = [...CODE128_STOP].reverse()
+const CODE128_START_A = 103
+const CODE128_START_B = 104
+const CODE128_START_C = 105
+const CODE128_FNC1 = 102
+const CODE128_SHIFT = 98
+const GROUP_SEPARATOR = "\u001d"
+
+type Code128Set = "A" | "B" | "C"
+
+function decodeCode128Text(values: number[]): string | null {
+  let set: Code128Set = values[0] === CODE128_START_A ? "A" : values[0] === CODE128_START_B ? "B" : "C"
+  let text = ""
+  let shifted = false
+  let extended = false // FNC4: the next character is offset by 128 (ISO 8859-1)
+
+  const append = (code: number) => {
+    text += String.fromCharCode(extended ? code + 128 : code)
+    extended = false
+  }
+
+  for (let i = 1; i < values.length; i++) {
+    const value = values[i]
+    const current: Code128Set = shifted ? (set === "A" ? "B" : "A") : set
+    shifted = false
+
+    if (value === CODE128_FNC1) {
+      // A leading FNC1 only marks GS1-128; later ones separate GS1 fields
+      if (i > 1) text += GROUP_SEPARATOR
+      continue
+    }
+
+    if (current === "C") {
+      if (value < 100) text += String(value).padStart(2, "0")
+      else if (value === 100) set = "B"
+      else if (value === 101) set = "A"
+      continue
+    }
+
+    const fnc4 = current === "A" ? 101 : 100
+    if (value < 64) append(value + 32)
+    else if (value < 96) append(current === "A" ? value - 64 : value + 32)
+    else if (value === CODE128_SHIFT) shifted = true
+    else if (value === 99) set = "C"
+    else if (value === fnc4) extended = true
+    else if (value === 100 || value === 101) set = value === 100 ? "B" : "A"
+    // FNC2 and FNC3 carry no data
+  }
+
+  return text || null
+}
+
+// Start, data and check symbol values
+function toCode128Barcode(values: number[]): DecodedBarcode | null {
+  // Start, at least one data symbol and the check symbol
+  if (values.length < 3) return null
+  const symbols = values.slice(0, -1)
+  const sum = symbols.reduce((total, value, index) => total + value * Math.max(1, index), 0)
+  if (sum % 103 !== values[values.length - 1]) return null
+
+  const text = decodeCode128Text(symbols)
+  return text ? { format: "code128", value: text } : null
+}
+
+function decodeCode128(runs: number[]): DecodedBarcode | null {
+  const startPatterns = [CODE128_START_A, CODE128_START_B, CODE128_START_C].map((value) => CODE128_PATTERNS[value])
+
+  for (let start = 1; start + 6 + 7 <= runs.length; start += 2) {
+    const { index: startMatch } = bestMatch(runs, start, startPatterns)
+    if (startMatch < 0) continue
+    const module = runs.slice(start, start + 6).reduce((sum, width) => sum + width, 0) / 11
+    if (runs[start - 1] < module * 4) continue // quiet zone
+
+    const values = [CODE128_START_A + startMatch]
+    let position = start + 6
+    let stopped = false
+    while (position + 6 <= runs.length) {
+      // The stop pattern's first six runs can resemble a data symbol, and vice versa
+      const { index: value, error } = bestMatch(runs, position, CODE128_PATTERNS)
+      if (patternError(runs, position, CODE128_STOP) < Math.min(error, MAX_PATTERN_ERROR)) {
+        stopped = true
+        break
+      }
+      if (value < 0 || value >= CODE128_START_A) break
+      values.push(value)
+      position += 6
+    }
+    if (!stopped) continue
+
+    const barcode = toCode128Barcode(values)
+    if (barcode) return barcode
+  }
+  return null
+}
+
+// An upside-down Code 128: the reversed stop symbol, then the symbols backwards up to the start symbol
+function decodeCode128UpsideDown(runs: number[]): DecodedBarcode | null {
+  for (let start = 1; start + 7 + 6 <= runs.length; start += 2) {
+    if (patternError(runs, start, CODE128_REVERSED_STOP) >= MAX_PATTERN_ERROR) continue
+    const module = runs.slice(start, start + 7).reduce((sum, width) => sum + width, 0) / 13
+    if (runs[start - 1] < module * 4) continue // quiet zone
+
+    const values: number[] = []
+    let position = start + 7
+    while (position + 6 <= runs.length) {
+      const { index: value } = bestMatch(runs, position, CODE128_REVERSED_PATTERNS)
+      if (value < 0) break
+      values.push(value)
+      position += 6
+      if (value >= CODE128_START_A) break
+    }
+    if (values.length === 0 || values[values.length - 1] < CODE128_START_A) continue
+
+    const barcode = toCode128Barcode(values.reverse())
+    if (barcode) return barcode
+  }
+  return null
+}
+
+// ---- Entry point ----------------------------------------------------------------------
+
+export function decodeBarcodes(image: RgbaImage): DecodedBarcode[] {
+  const found = new Map<string, DecodedBarcode>()
+  const add = (barcode: DecodedBarcode | null) => {
+    if (barcode) found.set(`${barcode.format}:${barcode.value}`, barcode)
+  }
+
+  const luminance = toLuminance(image)
+  for (const line of scanlines(luminance, image.width, image.height)) {
+    const runs = toRuns(line)
+    add(decodeEan13(runs))
+    add(decodeCode128(runs))
+    add(decodeCode128UpsideDown(runs))
+  }
+
+  const qr = jsQR(image.data, image.width, image.height, { inversionAttempts: "dontInvert" })
+  if (qr?.data) add({ format: "qr", value: qr.data })
+
+  return [...found.values()]
+}
@@ -0,0 +1,25 @@
+import type { DecodedBarcode } from "@/lib/barcode-decoder"
+import { createJobWorkerClient } from "@/lib/job-worker"
+import type { BarcodeJob, BarcodeResults } from "@/lib/worker-protocol"
+
+const runBarcodeJob = createJobWorkerClient<BarcodeJob, BarcodeResults>({
+  name: "Barcode worker",
+  createWorker: () => new Worker(new URL("./barcode.worker.ts", import.meta.url)),
+})
+
+// Files are scanned once, when they're added, and reused when the analysis starts
+const scans = new WeakMap<File, Promise<DecodedBarcode[]>>()
+
+// Decodes EAN-13, UPC-A, Code 128 and QR symbols in a worker. A failed scan yields no
+// barcodes rather than an error: the model-read identifiers still cover the image.
+export function scanImageFile(file: File): Promise<DecodedBarcode[]> {
+  let result = scans.get(file)
+  if (!result) {
+    result = runBarcodeJob({ type: "scan", image: file }).catch((error) => {
+      console.warn(`Barcode scan failed for ${file.name}:`, error)
+      return []
+    })
+    scans.set(file, result)
+  }
+  return result
+}
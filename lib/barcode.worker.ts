@@ -0,0 +1,16 @@
+// Dedicated worker for barcode decoding - jsQR alone takes seconds on a full-size photo - so
+// scanning the images as they're added never blocks the page; barcode-scanner is its client.
+import { decodeBarcodes } from "@/lib/barcode-decoder"
+import { readImageFilePixels } from "@/lib/image-pixels"
+import { serveJobs, type JobWorkerScope } from "@/lib/job-worker"
+import type { BarcodeJob } from "@/lib/worker-protocol"
+
+const worker = self as unknown as JobWorkerScope<BarcodeJob>
+
+// Large enough to keep thin bars apart
+const MAX_SCAN_DIMENSION = 2000
+
+serveJobs(worker, async (job) => {
+  const { pixels } = await readImageFilePixels(job.image, MAX_SCAN_DIMENSION)
+  return decodeBarcodes(pixels)
+})
@@ -0,0 +1,76 @@
+import type { RegionResponse, Severity } from "@/lib/analysis-schemas"
+
+// Fractions of the image size with the origin at the top-left, so boxes scale with the image
+export interface NormalizedBox {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface DifferenceRegion {
+  side: "packaging" | "delivery"
+  imageIndex: number // within that side's images
+  box: NormalizedBox
+}
+
+export interface Difference {
+  category: string // snake_case, e.g. physical_condition, product_identity
+  description: string
+  severity: Severity
+  regions: DifferenceRegion[] // where it is visible; empty when it can't be localized
+}
+
+export const SEVERITIES: Severity[] = ["high", "medium", "low"]
+
+const SEVERITY_RANK: Record<Severity, number> = { high: 0, medium: 1, low: 2 }
+
+export function toDifferenceRegion({ side, image_index, box }: RegionResponse): DifferenceRegion {
+  // Keep the box inside the image even if the model's width runs past the edge
+  return {
+    side,
+    imageIndex: image_index,
+    box: { x: box.x, y: box.y, width: Math.min(box.width, 1 - box.x), height: Math.min(box.height, 1 - box.y) },
+  }
+}
+
+export function toDifference(raw: {
+  category: string
+  description: string
+  severity: Severity
+  regions?: RegionResponse[]
+}): Difference {
+  return {
+    category: raw.category,
+    description: raw.description,
+    severity: raw.severity,
+    regions: (raw.regions ?? []).map(toDifferenceRegion),
+  }
+}
+
+// Most severe first; stable, so the model's order is kept within a severity
+export function sortBySeverity<T extends Pick<Difference, "severity">>(differences: T[]): T[] {
+  return [...differences].sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity])
+}
+
+export function filterBySeverity<T extends Pick<Difference, "severity">>(
+  differences: T[],
+  severities: readonly Severity[],
+): T[] {
+  return differences.filter((difference) => severities.includes(difference.severity))
+}
+
+export function countBySeverity(differences: Pick<Difference, "severity">[]): Record<Severity, number> {
+  const counts: Record<Severity, number> = { high: 0, medium: 0, low: 0 }
+  for (const difference of differences) counts[difference.severity]++
+  return counts
+}
+
+export function formatCategory(category: string) {
+  const words = category.replace(/_/g, " ").trim()
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+export function formatDifference({ category, description, severity }: Difference) {
+  return `${formatCategory(category)}: ${description} (${severity} severity)`
+}
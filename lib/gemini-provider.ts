@@ -0,0 +1,107 @@
+import { toGeminiSchema } from "@/lib/gemini-schema"
+import { parseRetryAfter, resolveRetryPolicy, RetryableError, withRetry, type RetryPolicy } from "@/lib/retry"
+import type { VisionProvider, VisionRequest } from "@/lib/vision-provider"
+
+interface GeminiProviderConfig {
+  apiKey?: string
+  model?: string
+  retryPolicy?: Partial<RetryPolicy>
+}
+
+const DEFAULT_MAX_OUTPUT_TOKENS = 4096
+
+// Statuses where repeating the same generateContent call can succeed
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504])
+
+export function createGeminiProvider({ apiKey, model, retryPolicy }: GeminiProviderConfig): VisionProvider {
+  const policy = resolveRetryPolicy(retryPolicy)
+
+  return {
+    name: "gemini",
+    model: model ?? "unconfigured",
+
+    async generate(request: VisionRequest) {
+      const { stage, prompt, images, schema, maxOutputTokens = DEFAULT_MAX_OUTPUT_TOKENS, onRetry, signal } = request
+
+      // Server-only: the key must never be exposed through a NEXT_PUBLIC_ variable
+      if (!apiKey || !model) {
+        throw new Error("Gemini is not configured on the server. Set GEMINI_API_KEY and GEMINI_MODEL.")
+      }
+
+      const endpoint = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`
+      const body = JSON.stringify({
+        contents: [
+          {
+            parts: [
+              { text: prompt },
+              ...images.map((image) => ({
+                inline_data: {
+                  mime_type: image.mimeType,
+                  data: image.data,
+                },
+              })),
+            ],
+          },
+        ],
+        generationConfig: {
+          temperature: 0.1,
+          topK: 32,
+          topP: 1,
+          maxOutputTokens,
+          ...(schema && {
+            responseMimeType: "application/json",
+            responseSchema: toGeminiSchema(schema),
+          }),
+        },
+      })
+
+      const response = await withRetry(
+        async () => {
+          let response: Response
+          try {
+            response = await fetch(endpoint, {
+              method: "POST",
+              headers: {
+                "Content-Type": "application/json",
+              },
+              body,
+              signal,
+            })
+          } catch (networkError) {
+            if (signal?.aborted) throw signal.reason
+            console.error("Gemini network error:", networkError)
+            throw new RetryableError("Could not reach Gemini. Please check your connection.")
+          }
+
+          if (!response.ok) {
+            const errorText = await response.text()
+            console.error("Gemini API Error:", response.status, errorText)
+
+            if (RETRYABLE_STATUSES.has(response.status)) {
+              const retryAfterMs = parseRetryAfter(response.headers.get("Retry-After"))
+              throw new RetryableError(
+                response.status === 429
+                  ? "Rate limit exceeded. Please try again in a moment."
+                  : `Gemini API error: ${response.status} - ${response.statusText}`,
+                retryAfterMs,
+              )
+            } else if (response.status === 401) {
+              throw new Error("Invalid API key. Please check your Gemini API key.")
+            } else if (response.status === 400) {
+              throw new Error("Invalid request. Please check your images and try again.")
+            } else {
+              throw new Error(`Gemini API error: ${response.status} - ${response.statusText}`)
+            }
+          }
+
+          return response
+        },
+        policy,
+        { onRetry: (attempt) => onRetry?.({ ...attempt, stage }), signal },
+      )
+
+      const data = await response.json()
+      return data.candidates[0].content.parts[0].text
+    },
+  }
+}
@@ -0,0 +1,64 @@
+import { z } from "zod"
+
+// Subset of the OpenAPI 3.0 schema object accepted by Gemini's generationConfig.responseSchema
+export interface GeminiSchema {
+  type: "STRING" | "NUMBER" | "INTEGER" | "BOOLEAN" | "ARRAY" | "OBJECT"
+  description?: string
+  nullable?: boolean
+  enum?: string[]
+  minimum?: number
+  maximum?: number
+  minItems?: number
+  maxItems?: number
+  items?: GeminiSchema
+  properties?: Record<string, GeminiSchema>
+  required?: string[]
+  propertyOrdering?: string[]
+}
+
+function isOptional(schema: z.ZodTypeAny): boolean {
+  return schema instanceof z.ZodOptional || schema instanceof z.ZodDefault
+}
+
+// Derives the response schema from the same zod schema used to validate the answer,
+// so the two can never drift apart.
+export function toGeminiSchema(schema: z.ZodTypeAny): GeminiSchema {
+  const withDescription = (converted: GeminiSchema): GeminiSchema =>
+    schema.description ? { ...converted, description: schema.description } : converted
+
+  if (schema instanceof z.ZodEffects) return withDescription(toGeminiSchema(schema.innerType()))
+  if (schema instanceof z.ZodOptional) return withDescription(toGeminiSchema(schema.unwrap()))
+  if (schema instanceof z.ZodDefault) return withDescription(toGeminiSchema(schema.removeDefault()))
+  if (schema instanceof z.ZodNullable) return withDescription({ ...toGeminiSchema(schema.unwrap()), nullable: true })
+
+  if (schema instanceof z.ZodString) return withDescription({ type: "STRING" })
+  if (schema instanceof z.ZodBoolean) return withDescription({ type: "BOOLEAN" })
+  if (schema instanceof z.ZodEnum) return withDescription({ type: "STRING", enum: [...schema.options] })
+
+  if (schema instanceof z.ZodNumber) {
+    const converted: GeminiSchema = { type: schema.isInt ? "INTEGER" : "NUMBER" }
+    if (schema.minValue !== null) converted.minimum = schema.minValue
+    if (schema.maxValue !== null) converted.maximum = schema.maxValue
+    return withDescription(converted)
+  }
+
+  if (schema instanceof z.ZodArray) {
+    const converted: GeminiSchema = { type: "ARRAY", items: toGeminiSchema(schema.element) }
+    if (schema._def.minLength) converted.minItems = schema._def.minLength.value
+    if (schema._def.maxLength) converted.maxItems = schema._def.maxLength.value
+    return withDescription(converted)
+  }
+
+  if (schema instanceof z.ZodObject) {
+    const shape: Record<string, z.ZodTypeAny> = schema.shape
+    const keys = Object.keys(shape)
+    return withDescription({
+      type: "OBJECT",
+      properties: Object.fromEntries(keys.map((key) => [key, toGeminiSchema(shape[key])])),
+      required: keys.filter((key) => !isOptional(shape[key])),
+      propertyOrdering: keys,
+    })
+  }
+
+  throw new Error(`Unsupported schema type for Gemini structured output: ${schema._def.typeName}`)
+}
@@ -1,87 +1,70 @@
 // Using Google Gemini AI for image analysis - free tier available
-const GEMINI_API_KEY = process.env.NEXT_PUBLIC_GEMINI_API_KEY!;
-const GEMINI_MODEL   = process.env.NEXT_PUBLIC_GEMINI_MODEL!;
-const GEMINI_ENDPOINT = 
-  `https://generativelanguage.googleapis.com/v1beta/models/` +
-  `${GEMINI_MODEL}:generateContent?key=${GEMINI_API_KEY}`;
+import { computeAnalysisCacheKey, readCachedAnalysis, writeCachedAnalysis } from "@/lib/analysis-cache"
+import { DEFAULT_STAGE_TIMEOUT_MS, withStageTimeout } from "@/lib/abort"
+import type { AnalysisOptions } from "@/lib/analysis-options"
+import { createProgressReporter } from "@/lib/analysis-progress"
+import { identificationSchema, similaritySchema } from "@/lib/analysis-schemas"
+import { toDifference, type Difference } from "@/lib/differences"
+import { encodeImage, hashVisionImage } from "@/lib/image-encoding"
+import { generateValidated } from "@/lib/structured-output"
+import { getVisionProvider } from "@/lib/vision-provider"
 
-interface AnalysisResult {
+// Bump whenever a prompt or response schema changes so cached results are not reused
+const PROMPT_VERSION = "identification-similarity/3"
+
+export interface AnalysisResult {
   packagingProduct: string
   deliveryProduct: string
   areProductsSame: boolean
   similarityPercentage?: number
-  differences: string[]
+  differences: Difference[]
   summary: string
   visualDifferences?: string
   confidenceScore: number
   technicalAnalysis: any
+  cachedAt?: string // set when the result was served from the analysis cache
 }
 
-async function convertImageToBase64(file: File): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader()
-    reader.onload = () => {
-      const result = reader.result as string
-      resolve(result.split(",")[1]) // Remove data:image/jpeg;base64, prefix
-    }
-    reader.onerror = reject
-    reader.readAsDataURL(file)
-  })
-}
-
-async function callGemini(prompt: string, images: string[]) {
-  const response = await fetch(GEMINI_ENDPOINT, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      contents: [
-        {
-          parts: [
-            { text: prompt },
-            ...images.map((image) => ({
-              inline_data: {
-                mime_type: "image/jpeg",
-                data: image,
-              },
-            })),
-          ],
-        },
-      ],
-      generationConfig: {
-        temperature: 0.1,
-        topK: 32,
-        topP: 1,
-        maxOutputTokens: 4096,
-      },
-    }),
-  })
-
-  if (!response.ok) {
-    const errorText = await response.text()
-    console.error("Gemini API Error:", response.status, errorText)
-
-    if (response.status === 401) {
-      throw new Error("Invalid API key. Please check your Gemini API key.")
-    } else if (response.status === 429) {
-      throw new Error("Rate limit exceeded. Please try again in a moment.")
-    } else if (response.status === 400) {
-      throw new Error("Invalid request. Please check your images and try again.")
-    } else {
-      throw new Error(`Gemini API error: ${response.status} - ${response.statusText}`)
-    }
-  }
-
-  const data = await response.json()
-  return data.candidates[0].content.parts[0].text
-}
+export async function analyzeImages(
+  packagingImage: File,
+  deliveryImage: File,
+  {
+    provider = getVisionProvider(),
+    cache,
+    onProgress,
+    signal,
+    stageTimeoutMs = DEFAULT_STAGE_TIMEOUT_MS,
+  }: AnalysisOptions = {},
+): Promise<AnalysisResult> {
+  const progress = createProgressReporter(
+    { encoding: 10, identification: 40, similarity: 40, parsing: 5, aggregation: 5 },
+    onProgress,
+  )
 
-export async function analyzeImages(packagingImage: File, deliveryImage: File): Promise<AnalysisResult> {
   try {
     // Convert images to base64
-    const packagingBase64 = await convertImageToBase64(packagingImage)
-    const deliveryBase64 = await convertImageToBase64(deliveryImage)
+    progress.start("encoding", "Encoding images...")
+    const images = [await encodeImage(packagingImage), await encodeImage(deliveryImage)]
+    progress.complete("encoding", "Encoded 2 images")
+    signal?.throwIfAborted()
+
+    const cacheKey =
+      cache &&
+      (await computeAnalysisCacheKey({
+        kind: "single",
+        model: provider.model,
+        promptVersion: PROMPT_VERSION,
+        packagingHashes: [await hashVisionImage(images[0])],
+        deliveryHashes: [await hashVisionImage(images[1])],
+      }))
+
+    if (cache && cacheKey) {
+      const cached = await readCachedAnalysis<AnalysisResult>(cache, cacheKey)
+      if (cached) {
+        progress.finish("cache", "Loaded a cached result for these images")
+        return cached
+      }
+    }
 
     // Step 1: Comprehensive Product Identification and Initial Analysis
     const identificationPrompt = `You are an expert product analyst specializing in delivery validation. Analyze these two images in extreme detail. The first image shows the product at packaging time, and the second shows the product at delivery time.
@@ -116,30 +99,33 @@ Respond in JSON format:
   }
 }`
 
-    const identificationResponse = await callGemini(identificationPrompt, [packagingBase64, deliveryBase64])
-    let identification
-
-    try {
-      // Clean the response to extract JSON
-      const jsonMatch = identificationResponse.match(/\{[\s\S]*\}/)
-      if (jsonMatch) {
-        identification = JSON.parse(jsonMatch[0])
-      } else {
-        throw new Error("No JSON found in response")
-      }
-    } catch (parseError) {
-      console.error("Failed to parse identification JSON:", identificationResponse)
-      throw new Error("Failed to parse initial analysis. Please try again.")
-    }
+    progress.start("identification", `Identifying products with ${provider.name}...`)
+    const identification = await withStageTimeout("identification", stageTimeoutMs, signal, (stageSignal) =>
+      generateValidated(
+        provider,
+        {
+          stage: "identification",
+          prompt: identificationPrompt,
+          images,
+          packagingImageCount: 1,
+          onRetry: progress.retry,
+          signal: stageSignal,
+        },
+        identificationSchema,
+        progress,
+      ),
+    )
+    progress.complete("identification", "Products identified")
 
     const areProductsSame = identification.initial_comparison.products_match
     const confidenceScore = identification.initial_comparison.confidence_level
 
     let similarityPercentage: number | undefined
-    let differences: string[] = []
+    let differences: Difference[] = []
     let summary: string
     let visualDifferences: string | undefined
     let technicalAnalysis: any = {}
+    let usedFallback = false
 
     if (areProductsSame) {
       // Step 2: Detailed Similarity Analysis for Matching Products
@@ -147,7 +133,7 @@ Respond in JSON format:
 
 Conduct a detailed similarity analysis and provide:
 1. Precise similarity percentage (0-100) based on condition, completeness, and quality
-2. Detailed list of specific differences found
+2. Detailed list of specific differences found, each with the regions of the images where it is visible
 3. Technical analysis of visual changes
 4. Overall assessment summary
 
@@ -158,6 +144,8 @@ Consider all factors:
 - Packaging changes
 - Quality indicators
 
+For each region give the image ("packaging" is the first image, "delivery" the second), image_index 0, and a box whose x, y, width and height are fractions (0-1) of the image width and height, measured from the top-left corner. Use an empty regions list for differences that can't be localized.
+
 Respond in JSON format:
 {
   "similarity_percentage": 85,
@@ -165,7 +153,14 @@ Respond in JSON format:
     {
       "category": "physical_condition",
       "description": "specific difference description",
-      "severity": "low/medium/high"
+      "severity": "low/medium/high",
+      "regions": [
+        {
+          "side": "packaging/delivery",
+          "image_index": 0,
+          "box": { "x": 0.1, "y": 0.2, "width": 0.3, "height": 0.15 }
+        }
+      ]
     }
   ],
   "technical_analysis": {
@@ -180,37 +175,54 @@ Respond in JSON format:
   "recommendations": ["recommendation1", "recommendation2"]
 }`
 
-      const similarityResponse = await callGemini(similarityPrompt, [packagingBase64, deliveryBase64])
-
+      progress.start("similarity", "Measuring similarity between the matching products...")
       try {
-        const jsonMatch = similarityResponse.match(/\{[\s\S]*\}/)
-        if (jsonMatch) {
-          const similarityAnalysis = JSON.parse(jsonMatch[0])
-
-          similarityPercentage = similarityAnalysis.similarity_percentage
-          differences = similarityAnalysis.detailed_differences.map(
-            (diff: any) => `${diff.category}: ${diff.description} (${diff.severity} severity)`,
-          )
-          technicalAnalysis = similarityAnalysis.technical_analysis
-          visualDifferences = similarityAnalysis.visual_differences
-          summary = similarityAnalysis.summary
-        } else {
-          throw new Error("No JSON found in similarity response")
-        }
+        const similarityAnalysis = await withStageTimeout("similarity", stageTimeoutMs, signal, (stageSignal) =>
+          generateValidated(
+            provider,
+            {
+              stage: "similarity",
+              prompt: similarityPrompt,
+              images,
+              packagingImageCount: 1,
+              onRetry: progress.retry,
+              signal: stageSignal,
+            },
+            similaritySchema,
+            progress,
+          ),
+        )
+
+        similarityPercentage = similarityAnalysis.similarity_percentage
+        differences = similarityAnalysis.detailed_differences.map(toDifference)
+        technicalAnalysis = similarityAnalysis.technical_analysis
+        visualDifferences = similarityAnalysis.visual_differences
+        summary = similarityAnalysis.summary
       } catch (parseError) {
-        console.error("Failed to parse similarity analysis:", parseError)
+        if (signal?.aborted) throw parseError
+        console.error("Failed to validate similarity analysis:", parseError)
         // Fallback analysis
+        usedFallback = true
         similarityPercentage = 75
-        differences = identification.initial_comparison.obvious_differences || []
+        // The identification step only reports untyped observations
+        differences = identification.initial_comparison.obvious_differences.map((description) =>
+          toDifference({ category: "general", description, severity: "medium" }),
+        )
         summary = `Both images show the same product: ${identification.packaging_analysis.product_name}. Some variations detected in presentation or condition.`
       }
+      progress.complete("similarity", "Similarity measured")
     } else {
       // Products are different
+      progress.skip("similarity")
       differences = [
-        `Packaging shows: ${identification.packaging_analysis.product_name}`,
-        `Delivery shows: ${identification.delivery_analysis.product_name}`,
-        "Products are completely different items",
-        ...identification.initial_comparison.obvious_differences,
+        toDifference({
+          category: "product_identity",
+          description: `Packaging shows ${identification.packaging_analysis.product_name}, delivery shows ${identification.delivery_analysis.product_name}`,
+          severity: "high",
+        }),
+        ...identification.initial_comparison.obvious_differences.map((description) =>
+          toDifference({ category: "general", description, severity: "high" }),
+        ),
       ]
 
       summary = `DELIVERY MISMATCH DETECTED: The packaging image contains "${identification.packaging_analysis.product_name}" while the delivery image shows "${identification.delivery_analysis.product_name}". This indicates a serious delivery error that requires immediate attention and investigation.`
@@ -223,7 +235,8 @@ Respond in JSON format:
       }
     }
 
-    return {
+    progress.start("aggregation", "Preparing the report...")
+    const result: AnalysisResult = {
       packagingProduct: identification.packaging_analysis.product_name,
       deliveryProduct: identification.delivery_analysis.product_name,
       areProductsSame,
@@ -234,6 +247,11 @@ Respond in JSON format:
       confidenceScore,
       technicalAnalysis,
     }
+
+    // A fallback result is a guess; let the next attempt ask the model again
+    if (cache && cacheKey && !usedFallback) await writeCachedAnalysis(cache, cacheKey, result)
+    progress.complete("aggregation", "Analysis complete")
+    return result
   } catch (error) {
     console.error("Error analyzing images:", error)
 
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest"
+import {
+  compareIdentifiers,
+  describeIdentifierMismatches,
+  isValidGtin,
+  isValidImei,
+  isValidLuhn,
+  normalizeIdentifier,
+  toExtractedIdentifier,
+} from "@/lib/identifiers"
+import type { IdentifierType } from "@/lib/analysis-schemas"
+
+const read = (type: IdentifierType, value: string) =>
+  toExtractedIdentifier({ type, value, image_index: 0, location: "label" })
+
+describe("check digits", () => {
+  it("validates Luhn numbers", () => {
+    expect(isValidLuhn("79927398713")).toBe(true)
+    expect(isValidLuhn("79927398710")).toBe(false)
+    expect(isValidLuhn("7992a")).toBe(false)
+  })
+
+  it("validates 15-digit IMEIs", () => {
+    expect(isValidImei("490154203237518")).toBe(true)
+    expect(isValidImei("490154203237519")).toBe(false)
+    expect(isValidImei("49015420323751")).toBe(false)
+  })
+
+  it("validates GTINs of every length", () => {
+    expect(isValidGtin("4006381333931")).toBe(true) // EAN-13
+    expect(isValidGtin("036000291452")).toBe(true) // UPC-A
+    expect(isValidGtin("96385074")).toBe(true) // EAN-8
+    expect(isValidGtin("4006381333932")).toBe(false)
+    expect(isValidGtin("400638133393")).toBe(false)
+  })
+})
+
+describe("toExtractedIdentifier", () => {
+  it("normalizes the value and checks its digit where the type has one", () => {
+    expect(normalizeIdentifier(" sn-12 34.ab ")).toBe("SN1234AB")
+    expect(read("imei", "49-015420-323751-8")).toMatchObject({ value: "490154203237518", checksumValid: true })
+    expect(read("serial", "abc")).toMatchObject({ value: "ABC", checksumValid: null })
+  })
+})
+
+describe("compareIdentifiers", () => {
+  it("matches equal values and reports a different unit", () => {
+    const check = compareIdentifiers(
+      [read("serial", "A1"), read("ean", "4006381333931")],
+      [read("serial", "B2"), read("ean", "4006381333931")],
+    )
+    expect(check.comparisons.map((comparison) => [comparison.type, comparison.status])).toEqual([
+      ["serial", "mismatch"],
+      ["ean", "match"],
+    ])
+    expect(check.mismatch).toBe(true)
+    expect(describeIdentifierMismatches(check)).toEqual(["Serial number differs: packed A1, delivered B2"])
+  })
+
+  it("treats a shared value among several as partial", () => {
+    const check = compareIdentifiers(
+      [read("imei", "490154203237518"), read("imei", "356938035643809")],
+      [read("imei", "356938035643809")],
+    )
+    expect(check.comparisons[0].status).toBe("partial")
+    expect(check.mismatch).toBe(false)
+  })
+
+  it("ignores misreads with a failed check digit", () => {
+    const check = compareIdentifiers([read("imei", "490154203237518")], [read("imei", "490154203237519")])
+    expect(check.comparisons[0].status).toBe("packaging_only")
+    expect(check.mismatch).toBe(false)
+  })
+})
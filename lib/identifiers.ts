@@ -0,0 +1,138 @@
+// Exact comparison of the unit identifiers read from each side. Visual similarity can't tell
+// two units of the same model apart; a serial number or IMEI can.
+import type { IdentifierType } from "@/lib/analysis-schemas"
+
+export interface ExtractedIdentifier {
+  type: IdentifierType
+  value: string // normalized: no spaces or dashes, upper case
+  imageIndex: number // within its own side's images
+  location: string
+  checksumValid: boolean | null // null for types without a check digit
+}
+
+export type IdentifierStatus = "match" | "partial" | "mismatch" | "packaging_only" | "delivery_only"
+
+export interface IdentifierComparison {
+  type: IdentifierType
+  packaging: string[]
+  delivery: string[]
+  status: IdentifierStatus
+}
+
+export interface IdentifierCheck {
+  packaging: ExtractedIdentifier[]
+  delivery: ExtractedIdentifier[]
+  comparisons: IdentifierComparison[]
+  mismatch: boolean // true if any identifier type was read on both sides with no value in common
+}
+
+export const IDENTIFIER_LABELS: Record<IdentifierType, string> = {
+  serial: "Serial number",
+  imei: "IMEI",
+  ean: "EAN",
+  upc: "UPC",
+  batch: "Batch code",
+}
+
+export function normalizeIdentifier(value: string) {
+  return value.replace(/[\s\-.:/]/g, "").toUpperCase()
+}
+
+// Luhn mod-10, as used for the 15th digit of an IMEI
+export function isValidLuhn(digits: string) {
+  if (!/^\d+$/.test(digits)) return false
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
+
+export function isValidImei(value: string) {
+  return /^\d{15}$/.test(value) && isValidLuhn(value)
+}
+
+// GS1 check digit shared by EAN-8, UPC-A (12), EAN-13 and GTIN-14
+export function isValidGtin(value: string) {
+  if (!/^(\d{8}|\d{12}|\d{13}|\d{14})$/.test(value)) return false
+  const digits = [...value].map(Number)
+  const checkDigit = digits.pop()!
+  const sum = digits.reverse().reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 3 : 1), 0)
+  return (10 - (sum % 10)) % 10 === checkDigit
+}
+
+export function validateIdentifier(type: IdentifierType, value: string): boolean | null {
+  switch (type) {
+    case "imei":
+      return isValidImei(value)
+    case "ean":
+    case "upc":
+      return isValidGtin(value)
+    default:
+      return null
+  }
+}
+
+export function toExtractedIdentifier(raw: {
+  type: IdentifierType
+  value: string
+  image_index: number
+  location: string
+}): ExtractedIdentifier {
+  const value = normalizeIdentifier(raw.value)
+  return {
+    type: raw.type,
+    value,
+    imageIndex: raw.image_index,
+    location: raw.location,
+    checksumValid: validateIdentifier(raw.type, value),
+  }
+}
+
+export function compareIdentifiers(packaging: ExtractedIdentifier[], delivery: ExtractedIdentifier[]): IdentifierCheck {
+  // A failed check digit means a misread, not a different unit, so those values are shown but not compared
+  const valuesOf = (identifiers: ExtractedIdentifier[], type: IdentifierType) => [
+    ...new Set(
+      identifiers
+        .filter((identifier) => identifier.type === type && identifier.checksumValid !== false)
+        .map((identifier) => identifier.value),
+    ),
+  ]
+
+  const types = [...new Set([...packaging, ...delivery].map((identifier) => identifier.type))]
+  const comparisons = types.map((type): IdentifierComparison => {
+    const packed = valuesOf(packaging, type)
+    const delivered = valuesOf(delivery, type)
+    const shared = packed.filter((value) => delivered.includes(value))
+
+    let status: IdentifierStatus
+    if (packed.length === 0) status = "delivery_only"
+    else if (delivered.length === 0) status = "packaging_only"
+    else if (shared.length === 0) status = "mismatch"
+    else if (shared.length === packed.length && shared.length === delivered.length) status = "match"
+    else status = "partial" // e.g. both IMEIs of a dual-SIM phone on the box, one on the device
+
+    return { type, packaging: packed, delivery: delivered, status }
+  })
+
+  return {
+    packaging,
+    delivery,
+    comparisons: comparisons.filter((comparison) => comparison.packaging.length + comparison.delivery.length > 0),
+    mismatch: comparisons.some((comparison) => comparison.status === "mismatch"),
+  }
+}
+
+export function describeIdentifierMismatches({ comparisons }: IdentifierCheck) {
+  return comparisons
+    .filter((comparison) => comparison.status === "mismatch")
+    .map(
+      ({ type, packaging, delivery }) =>
+        `${IDENTIFIER_LABELS[type]} differs: packed ${packaging.join(", ")}, delivered ${delivery.join(", ")}`,
+    )
+}
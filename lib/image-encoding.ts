@@ -0,0 +1,23 @@
+import { sha256Hex } from "@/lib/hash"
+import { GEMINI_SUPPORTED_FORMATS, IMAGE_MIME_TYPES, sniffImageFormat } from "@/lib/image-format"
+import type { VisionImage } from "@/lib/vision-provider"
+
+// Shared by both analysis services; runs on the server where File.arrayBuffer is available.
+// The MIME type comes from the bytes - the browser-reported type is not trusted.
+export async function encodeImage(file: File): Promise<VisionImage> {
+  const buffer = Buffer.from(await file.arrayBuffer())
+  const format = sniffImageFormat(new Uint8Array(buffer))
+
+  if (!format || !GEMINI_SUPPORTED_FORMATS.has(format)) {
+    throw new Error(`"${file.name}" is not a supported image (${format ?? "unknown format"}). Use JPEG, PNG, WebP or HEIC.`)
+  }
+
+  return {
+    data: buffer.toString("base64"),
+    mimeType: IMAGE_MIME_TYPES[format],
+  }
+}
+
+export async function hashVisionImage(image: VisionImage): Promise<string> {
+  return sha256Hex(new Uint8Array(Buffer.from(image.data, "base64")))
+}
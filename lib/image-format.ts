@@ -0,0 +1,48 @@
+// Magic-byte image format detection, shared by the uploader and the server
+export type ImageFormat = "jpeg" | "png" | "webp" | "gif" | "bmp" | "tiff" | "heic" | "heif" | "avif"
+
+export const IMAGE_MIME_TYPES: Record<ImageFormat, string> = {
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  gif: "image/gif",
+  bmp: "image/bmp",
+  tiff: "image/tiff",
+  heic: "image/heic",
+  heif: "image/heif",
+  avif: "image/avif",
+}
+
+// Formats Gemini accepts as inline image data; everything else is converted in the browser first
+export const GEMINI_SUPPORTED_FORMATS: ReadonlySet<ImageFormat> = new Set(["jpeg", "png", "webp", "heic", "heif"])
+
+// Enough bytes to cover every signature below, including the ISO-BMFF compatible brands
+export const SNIFF_BYTE_LENGTH = 64
+
+const ascii = (bytes: Uint8Array, start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end))
+
+const startsWith = (bytes: Uint8Array, signature: number[]) =>
+  bytes.length >= signature.length && signature.every((byte, index) => bytes[index] === byte)
+
+function sniffIsoBmffBrand(bytes: Uint8Array): ImageFormat | null {
+  if (bytes.length < 16 || ascii(bytes, 4, 8) !== "ftyp") return null
+
+  const boxSize = Math.min((bytes[0] << 24) | (bytes[1] << 16) | (bytes[2] << 8) | bytes[3], bytes.length)
+  const brands = [ascii(bytes, 8, 12)]
+  for (let offset = 16; offset + 4 <= boxSize; offset += 4) brands.push(ascii(bytes, offset, offset + 4))
+
+  if (brands.some((brand) => brand === "avif" || brand === "avis")) return "avif"
+  if (brands.some((brand) => ["heic", "heix", "hevc", "hevx", "heim", "heis"].includes(brand))) return "heic"
+  if (brands.some((brand) => brand === "mif1" || brand === "msf1")) return "heif"
+  return null
+}
+
+export function sniffImageFormat(bytes: Uint8Array): ImageFormat | null {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return "jpeg"
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "png"
+  if (bytes.length >= 12 && ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 12) === "WEBP") return "webp"
+  if (bytes.length >= 6 && (ascii(bytes, 0, 6) === "GIF87a" || ascii(bytes, 0, 6) === "GIF89a")) return "gif"
+  if (startsWith(bytes, [0x42, 0x4d])) return "bmp"
+  if (startsWith(bytes, [0x49, 0x49, 0x2a, 0x00]) || startsWith(bytes, [0x4d, 0x4d, 0x00, 0x2a])) return "tiff"
+  return sniffIsoBmffBrand(bytes)
+}
@@ -0,0 +1,21 @@
+// Browser side of image-metrics: the images are decoded and compared in image-metrics.worker,
+// behind the same interface as processImagesWithPython. The difference heatmap comes back as a
+// PNG data URL.
+import { DEFAULT_STAGE_TIMEOUT_MS, withStageTimeout } from "@/lib/abort"
+import type { PixelComparisonEngine } from "@/lib/image-metrics"
+import { createJobWorkerClient } from "@/lib/job-worker"
+import type { ImageMetricsJob, ImageMetricsResults } from "@/lib/worker-protocol"
+
+const runMetricsJob = createJobWorkerClient<ImageMetricsJob, ImageMetricsResults>({
+  name: "Image metrics worker",
+  createWorker: () => new Worker(new URL("./image-metrics.worker.ts", import.meta.url)),
+})
+
+export const processImagesWithMetrics: PixelComparisonEngine = (
+  packagingBase64,
+  deliveryBase64,
+  { signal, timeoutMs = DEFAULT_STAGE_TIMEOUT_MS } = {},
+) =>
+  withStageTimeout("pixel_comparison", timeoutMs, signal, (stageSignal) =>
+    runMetricsJob({ type: "compare", packaging: packagingBase64, delivery: deliveryBase64 }, { signal: stageSignal }),
+  )
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest"
+import {
+  compareImageMetrics,
+  differenceHeatmap,
+  estimateTranslation,
+  meanSquaredError,
+  peakSignalToNoiseRatio,
+  resizeChannel,
+  structuralSimilarity,
+} from "@/lib/image-metrics"
+import { toLuminance, type RgbaImage } from "@/lib/image-pixels"
+
+// A smooth, textured test photo with a bright block, optionally shifted by (dx, dy)
+function photo(width: number, height: number, { dx = 0, dy = 0, brightness = 0 } = {}): RgbaImage {
+  let seed = 7
+  const random = () => (seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648
+  const noise = Array.from({ length: width * height }, random)
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const sourceX = Math.min(width - 1, Math.max(0, x - dx))
+      const sourceY = Math.min(height - 1, Math.max(0, y - dy))
+      const block = sourceX > width * 0.3 && sourceX < width * 0.6 && sourceY > height * 0.25 && sourceY < height * 0.65
+      const value =
+        brightness +
+        120 +
+        60 * Math.sin(sourceX / 37) * Math.cos(sourceY / 53) +
+        25 * noise[sourceY * width + sourceX] +
+        (block ? 50 : 0)
+      const i = (y * width + x) * 4
+      data.set([value, value * 0.9, value * 0.8, 255], i)
+    }
+  }
+  return { data, width, height }
+}
+
+const luminance512 = (image: RgbaImage) => resizeChannel(toLuminance(image), image.width, image.height, 512, 512)
+
+describe("peakSignalToNoiseRatio", () => {
+  it("is infinite for identical images and follows 10·log10(255²/MSE)", () => {
+    expect(peakSignalToNoiseRatio(0)).toBe(Infinity)
+    expect(peakSignalToNoiseRatio(255 * 255)).toBe(0)
+    expect(peakSignalToNoiseRatio(65.025)).toBeCloseTo(30, 5)
+  })
+})
+
+describe("meanSquaredError", () => {
+  it("averages over every channel", () => {
+    expect(meanSquaredError([[0, 0], [10, 10]], [[0, 0], [10, 10]])).toBe(0)
+    expect(meanSquaredError([[0, 0], [0, 0]], [[2, 2], [0, 0]])).toBe(2)
+  })
+})
+
+describe("structuralSimilarity", () => {
+  const size = 32
+  const gradient = Array.from({ length: size * size }, (_, i) => (i % size) * 8)
+
+  it("is 1 for identical images", () => {
+    expect(structuralSimilarity(gradient, gradient, size, size)).toBeCloseTo(1, 10)
+  })
+
+  it("drops for structural changes more than for a small brightness shift", () => {
+    const brighter = gradient.map((value) => value + 5)
+    const inverted = gradient.map((value) => 255 - value)
+    const brighterSsim = structuralSimilarity(gradient, brighter, size, size)
+    expect(brighterSsim).toBeGreaterThan(0.9)
+    expect(structuralSimilarity(gradient, inverted, size, size)).toBeLessThan(0)
+  })
+})
+
+describe("compareImageMetrics", () => {
+  it("rates identical images 100% with infinite PSNR", () => {
+    const image = photo(256, 192)
+    const result = compareImageMetrics(image, photo(256, 192))
+    expect(result.similarity_percentage).toBeCloseTo(100, 5)
+    expect(result.differences).toEqual([])
+    expect(result.features_comparison).toMatchObject({ brightness_diff: 0, mse: 0, psnr: Infinity })
+  })
+
+  it("reports a brightness change", () => {
+    const result = compareImageMetrics(photo(256, 192), photo(256, 192, { brightness: 40 }))
+    expect(result.similarity_percentage).toBeLessThan(100)
+    expect(result.differences.some((difference) => difference.startsWith("Brightness difference"))).toBe(true)
+  })
+})
+
+describe("estimateTranslation", () => {
+  it("finds no shift between identical images", () => {
+    const image = luminance512(photo(1024, 768))
+    expect(estimateTranslation(image, image, 512)).toEqual({ dx: 0, dy: 0 })
+  })
+
+  it("finds the shift of a moved photo", () => {
+    // 20 px at 1024 wide is 10 px at the compared 512
+    const moved = luminance512(photo(1024, 768, { dx: 20 }))
+    expect(estimateTranslation(luminance512(photo(1024, 768)), moved, 512)).toEqual({ dx: 10, dy: 0 })
+  })
+})
+
+describe("differenceHeatmap", () => {
+  it("is empty for identical images", () => {
+    const heatmap = differenceHeatmap(photo(512, 384), photo(512, 384))
+    let maxAlpha = 0
+    for (let i = 3; i < heatmap.data.length; i += 4) maxAlpha = Math.max(maxAlpha, heatmap.data[i])
+    expect(maxAlpha).toBeLessThan(16)
+  })
+})
@@ -0,0 +1,497 @@
+// The pixel comparison of compare_images_advanced in the Python worker, in plain TypeScript:
+// SSIM, MSE/PSNR, brightness and contrast, channel means and Canny edge density. Pure pixel
+// maths like the quality checks, so it runs on canvas ImageData in the browser and on decoded
+// RGBA buffers in Node (wrap a Buffer as new Uint8ClampedArray(buffer.buffer, buffer.byteOffset,
+// buffer.length)). The output has the Python shape so either engine feeds toPixelComparison.
+import { toLuminance, type RgbaImage } from "@/lib/image-pixels"
+
+export interface PixelComparisonOutput {
+  similarity_percentage: number
+  differences: string[]
+  heatmap?: string // PNG, data URL or bare base64; see differenceHeatmap
+  features_comparison: PixelFeatureComparison | { error: string } // the error from the Python script
+}
+
+export interface PixelFeatureComparison {
+  brightness_diff: number
+  contrast_diff: number
+  color_diff: number
+  edge_diff: number | null
+  method_used: "advanced" | "basic"
+  engine?: "typescript" | "python" // absent from the Python worker
+  mse?: number
+  psnr?: number // dB; Infinity for identical images
+}
+
+export interface PixelProcessingOptions {
+  signal?: AbortSignal
+  timeoutMs?: number // covers runtime start-up plus the comparison itself
+  onProgress?: (message: string) => void
+}
+
+// Both engines take the two images as base64 bytes, packaging first
+export type PixelComparisonEngine = (
+  packagingBase64: string,
+  deliveryBase64: string,
+  options?: PixelProcessingOptions,
+) => Promise<PixelComparisonOutput>
+
+export interface ImageStatistics {
+  brightness: number // mean over all RGB values, 0-255
+  contrast: number // standard deviation over all RGB values
+  rMean: number
+  gMean: number
+  bMean: number
+}
+
+// As in the Python preprocessing: both images squashed to one size, contrast raised by 1.2
+const SSIM_SIZE = 512
+const CONTRAST_FACTOR = 1.2
+const MSE_SIZE = 256
+
+// skimage.metrics.structural_similarity defaults for 8-bit images
+const SSIM_WINDOW = 7
+const SSIM_C1 = (0.01 * 255) ** 2
+const SSIM_C2 = (0.03 * 255) ** 2
+
+// skimage.feature.canny defaults, thresholds on the gradient of the 0-1 image
+const CANNY_SIGMA = 1
+const CANNY_LOW = 0.1
+const CANNY_HIGH = 0.2
+
+// The heatmap is computed at SSIM_SIZE after aligning on a coarse copy, for shifts up to this
+// share of the image side
+const ALIGN_SIZE = 128
+const MAX_SHIFT = 0.1
+
+// The thresholds compare_images_advanced reports differences at
+const BRIGHTNESS_DIFF = 20
+const CONTRAST_DIFF = 15
+const COLOR_DIFF = 30
+const EDGE_DIFF = 0.1
+
+export function imageStatistics({ data, width, height }: RgbaImage): ImageStatistics {
+  const pixels = width * height
+  const sums = [0, 0, 0]
+  let sumOfSquares = 0
+  for (let i = 0; i < pixels; i++) {
+    for (let channel = 0; channel < 3; channel++) {
+      const value = data[i * 4 + channel]
+      sums[channel] += value
+      sumOfSquares += value * value
+    }
+  }
+  const count = Math.max(1, pixels * 3)
+  const brightness = (sums[0] + sums[1] + sums[2]) / count
+  return {
+    brightness,
+    contrast: Math.sqrt(Math.max(0, sumOfSquares / count - brightness * brightness)),
+    rMean: sums[0] / Math.max(1, pixels),
+    gMean: sums[1] / Math.max(1, pixels),
+    bMean: sums[2] / Math.max(1, pixels),
+  }
+}
+
+// Box-filter resample of one channel; each target pixel averages the source pixels it covers
+export function resizeChannel(
+  values: ArrayLike<number>,
+  width: number,
+  height: number,
+  toWidth: number,
+  toHeight: number,
+) {
+  const resized = new Float64Array(toWidth * toHeight)
+  for (let ty = 0; ty < toHeight; ty++) {
+    const y0 = Math.floor((ty * height) / toHeight)
+    const y1 = Math.max(y0 + 1, Math.floor(((ty + 1) * height) / toHeight))
+    for (let tx = 0; tx < toWidth; tx++) {
+      const x0 = Math.floor((tx * width) / toWidth)
+      const x1 = Math.max(x0 + 1, Math.floor(((tx + 1) * width) / toWidth))
+      let sum = 0
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) sum += values[y * width + x]
+      }
+      resized[ty * toWidth + tx] = sum / ((y1 - y0) * (x1 - x0))
+    }
+  }
+  return resized
+}
+
+function resizeRgb(image: RgbaImage, toWidth: number, toHeight: number) {
+  return [0, 1, 2].map((channel) => {
+    const values = new Float64Array(image.width * image.height)
+    for (let i = 0; i < values.length; i++) values[i] = image.data[i * 4 + channel]
+    return resizeChannel(values, image.width, image.height, toWidth, toHeight)
+  })
+}
+
+// PIL's ImageEnhance.Contrast: blends away from the mean grey level, clipped to 0-255
+export function enhanceContrast(luminance: ArrayLike<number>, factor: number) {
+  let mean = 0
+  for (let i = 0; i < luminance.length; i++) mean += luminance[i]
+  mean = Math.round(mean / Math.max(1, luminance.length))
+  const enhanced = new Float64Array(luminance.length)
+  for (let i = 0; i < luminance.length; i++) {
+    enhanced[i] = Math.min(255, Math.max(0, mean + factor * (luminance[i] - mean)))
+  }
+  return enhanced
+}
+
+// Over all channels of equally sized images, on the 0-255 scale
+export function meanSquaredError(a: ArrayLike<number>[], b: ArrayLike<number>[]) {
+  let sum = 0
+  let count = 0
+  a.forEach((channel, index) => {
+    for (let i = 0; i < channel.length; i++) sum += (channel[i] - b[index][i]) ** 2
+    count += channel.length
+  })
+  return count > 0 ? sum / count : 0
+}
+
+export const peakSignalToNoiseRatio = (mse: number) => (mse === 0 ? Infinity : 10 * Math.log10((255 * 255) / mse))
+
+// Summed-area table with a zero first row and column
+function integral(values: ArrayLike<number>, width: number, height: number) {
+  const table = new Float64Array((width + 1) * (height + 1))
+  for (let y = 0; y < height; y++) {
+    let row = 0
+    for (let x = 0; x < width; x++) {
+      row += values[y * width + x]
+      table[(y + 1) * (width + 1) + x + 1] = table[y * (width + 1) + x + 1] + row
+    }
+  }
+  return table
+}
+
+// Local SSIM of two greyscale images of the same size, one value per 7×7 uniform window with
+// sample covariances, as skimage computes it. visit gets each window's top-left corner.
+function forEachSsimWindow(
+  a: ArrayLike<number>,
+  b: ArrayLike<number>,
+  width: number,
+  height: number,
+  visit: (x: number, y: number, ssim: number) => void,
+) {
+  if (width < SSIM_WINDOW || height < SSIM_WINDOW) throw new Error("Images are too small for SSIM")
+
+  const products = (f: (x: number, y: number) => number) => {
+    const values = new Float64Array(width * height)
+    for (let i = 0; i < values.length; i++) values[i] = f(a[i], b[i])
+    return integral(values, width, height)
+  }
+  const sumA = integral(a, width, height)
+  const sumB = integral(b, width, height)
+  const sumAA = products((x) => x * x)
+  const sumBB = products((_, y) => y * y)
+  const sumAB = products((x, y) => x * y)
+
+  const stride = width + 1
+  const windowSum = (table: Float64Array, x: number, y: number) =>
+    table[(y + SSIM_WINDOW) * stride + x + SSIM_WINDOW] -
+    table[y * stride + x + SSIM_WINDOW] -
+    table[(y + SSIM_WINDOW) * stride + x] +
+    table[y * stride + x]
+
+  const n = SSIM_WINDOW * SSIM_WINDOW
+  const covarianceNorm = n / (n - 1)
+  for (let y = 0; y + SSIM_WINDOW <= height; y++) {
+    for (let x = 0; x + SSIM_WINDOW <= width; x++) {
+      const meanA = windowSum(sumA, x, y) / n
+      const meanB = windowSum(sumB, x, y) / n
+      const varianceA = covarianceNorm * (windowSum(sumAA, x, y) / n - meanA * meanA)
+      const varianceB = covarianceNorm * (windowSum(sumBB, x, y) / n - meanB * meanB)
+      const covariance = covarianceNorm * (windowSum(sumAB, x, y) / n - meanA * meanB)
+      visit(
+        x,
+        y,
+        ((2 * meanA * meanB + SSIM_C1) * (2 * covariance + SSIM_C2)) /
+          ((meanA * meanA + meanB * meanB + SSIM_C1) * (varianceA + varianceB + SSIM_C2)),
+      )
+    }
+  }
+}
+
+// Mean SSIM over the windows that fit inside the image
+export function structuralSimilarity(a: ArrayLike<number>, b: ArrayLike<number>, width: number, height: number) {
+  let total = 0
+  let windows = 0
+  forEachSsimWindow(a, b, width, height, (_x, _y, ssim) => {
+    total += ssim
+    windows++
+  })
+  return total / windows
+}
+
+function gaussianBlur(values: Float64Array, width: number, height: number, sigma: number) {
+  const radius = Math.ceil(4 * sigma)
+  const kernel = Array.from({ length: 2 * radius + 1 }, (_, i) => Math.exp(-((i - radius) ** 2) / (2 * sigma * sigma)))
+  const norm = kernel.reduce((sum, weight) => sum + weight, 0)
+  const clamp = (value: number, max: number) => Math.min(max, Math.max(0, value))
+
+  const horizontal = new Float64Array(values.length)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0
+      for (let k = -radius; k <= radius; k++) sum += kernel[k + radius] * values[y * width + clamp(x + k, width - 1)]
+      horizontal[y * width + x] = sum / norm
+    }
+  }
+  const blurred = new Float64Array(values.length)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0
+      for (let k = -radius; k <= radius; k++) {
+        sum += kernel[k + radius] * horizontal[clamp(y + k, height - 1) * width + x]
+      }
+      blurred[y * width + x] = sum / norm
+    }
+  }
+  return blurred
+}
+
+// Canny: Gaussian smoothing, Sobel gradients, non-maximum suppression and hysteresis.
+// Returns the share of pixels on an edge, like np.sum(canny(image)) / image.size.
+export function edgeDensity(luminance: ArrayLike<number>, width: number, height: number) {
+  if (width < 3 || height < 3) return 0
+  const scaled = new Float64Array(width * height)
+  for (let i = 0; i < scaled.length; i++) scaled[i] = luminance[i] / 255
+  const smoothed = gaussianBlur(scaled, width, height, CANNY_SIGMA)
+
+  const magnitude = new Float64Array(width * height)
+  const gradientX = new Float64Array(width * height)
+  const gradientY = new Float64Array(width * height)
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x
+      const gx =
+        smoothed[i - width + 1] + 2 * smoothed[i + 1] + smoothed[i + width + 1] -
+        (smoothed[i - width - 1] + 2 * smoothed[i - 1] + smoothed[i + width - 1])
+      const gy =
+        smoothed[i + width - 1] + 2 * smoothed[i + width] + smoothed[i + width + 1] -
+        (smoothed[i - width - 1] + 2 * smoothed[i - width] + smoothed[i - width + 1])
+      gradientX[i] = gx
+      gradientY[i] = gy
+      magnitude[i] = Math.hypot(gx, gy)
+    }
+  }
+
+  // Keep local maxima across the edge: compare with both neighbours along the gradient direction
+  const candidate = new Uint8Array(width * height) // 0 none, 1 weak, 2 strong
+  const pending: number[] = []
+  for (let y = 2; y < height - 2; y++) {
+    for (let x = 2; x < width - 2; x++) {
+      const i = y * width + x
+      const value = magnitude[i]
+      if (value < CANNY_LOW) continue
+      const angle = ((Math.atan2(gradientY[i], gradientX[i]) * 180) / Math.PI + 180) % 180
+      const step =
+        angle < 22.5 || angle >= 157.5 ? 1 : angle < 67.5 ? width + 1 : angle < 112.5 ? width : width - 1
+      if (value < magnitude[i - step] || value < magnitude[i + step]) continue
+      candidate[i] = value >= CANNY_HIGH ? 2 : 1
+      if (candidate[i] === 2) pending.push(i)
+    }
+  }
+
+  // Weak edges survive when connected (8-neighbourhood) to a strong one
+  const edge = new Uint8Array(width * height)
+  pending.forEach((i) => (edge[i] = 1))
+  while (pending.length > 0) {
+    const i = pending.pop()!
+    for (const offset of [-width - 1, -width, -width + 1, -1, 1, width - 1, width, width + 1]) {
+      const neighbour = i + offset
+      if (candidate[neighbour] > 0 && !edge[neighbour]) {
+        edge[neighbour] = 1
+        pending.push(neighbour)
+      }
+    }
+  }
+
+  let count = 0
+  for (let i = 0; i < edge.length; i++) count += edge[i]
+  return count / edge.length
+}
+
+// Packaging image first. Statistics and edges come from the images as given; SSIM and MSE
+// from copies resized to a common size.
+export function compareImageMetrics(packaging: RgbaImage, delivery: RgbaImage): PixelComparisonOutput {
+  const packagingLuminance = toLuminance(packaging)
+  const deliveryLuminance = toLuminance(delivery)
+
+  const ssim = structuralSimilarity(
+    enhanceContrast(
+      resizeChannel(packagingLuminance, packaging.width, packaging.height, SSIM_SIZE, SSIM_SIZE),
+      CONTRAST_FACTOR,
+    ),
+    enhanceContrast(
+      resizeChannel(deliveryLuminance, delivery.width, delivery.height, SSIM_SIZE, SSIM_SIZE),
+      CONTRAST_FACTOR,
+    ),
+    SSIM_SIZE,
+    SSIM_SIZE,
+  )
+  const mse = meanSquaredError(resizeRgb(packaging, MSE_SIZE, MSE_SIZE), resizeRgb(delivery, MSE_SIZE, MSE_SIZE))
+
+  const packagingStats = imageStatistics(packaging)
+  const deliveryStats = imageStatistics(delivery)
+  const brightnessDiff = Math.abs(packagingStats.brightness - deliveryStats.brightness)
+  const contrastDiff = Math.abs(packagingStats.contrast - deliveryStats.contrast)
+  const colorDiff = Math.max(
+    Math.abs(packagingStats.rMean - deliveryStats.rMean),
+    Math.abs(packagingStats.gMean - deliveryStats.gMean),
+    Math.abs(packagingStats.bMean - deliveryStats.bMean),
+  )
+  const edgeDiff = Math.abs(
+    edgeDensity(packagingLuminance, packaging.width, packaging.height) -
+      edgeDensity(deliveryLuminance, delivery.width, delivery.height),
+  )
+
+  const differences: string[] = []
+  if (brightnessDiff > BRIGHTNESS_DIFF) differences.push(`Brightness difference: ${brightnessDiff.toFixed(1)}`)
+  if (contrastDiff > CONTRAST_DIFF) differences.push(`Contrast difference: ${contrastDiff.toFixed(1)}`)
+  if (colorDiff > COLOR_DIFF) differences.push("Significant color differences detected")
+  if (edgeDiff > EDGE_DIFF) differences.push(`Edge detail difference: ${edgeDiff.toFixed(3)}`)
+
+  return {
+    similarity_percentage: ssim * 100,
+    differences,
+    features_comparison: {
+      brightness_diff: brightnessDiff,
+      contrast_diff: contrastDiff,
+      color_diff: colorDiff,
+      edge_diff: edgeDiff,
+      method_used: "advanced",
+      engine: "typescript",
+      mse,
+      psnr: peakSignalToNoiseRatio(mse),
+    },
+  }
+}
+
+// A shift in pixels of the compared size: delivery(x, y) shows what packaging(x - dx, y - dy) does
+export interface Translation {
+  dx: number
+  dy: number
+}
+
+// Mean absolute difference over the overlap of the shifted packaging copy
+function shiftedDifference(packaging: ArrayLike<number>, delivery: ArrayLike<number>, size: number, dx: number, dy: number) {
+  let sum = 0
+  let count = 0
+  for (let y = Math.max(0, dy); y < Math.min(size, size + dy); y++) {
+    for (let x = Math.max(0, dx); x < Math.min(size, size + dx); x++) {
+      sum += Math.abs(packaging[(y - dy) * size + x - dx] - delivery[y * size + x])
+      count++
+    }
+  }
+  return count > 0 ? sum / count : Infinity
+}
+
+// Every pixel is sampled, since a sparser grid lets shifts one pixel apart tie on blocky or
+// upscaled images. Ties go to the shift nearest the center, so identical images stay at zero.
+function bestShift(
+  packaging: ArrayLike<number>,
+  delivery: ArrayLike<number>,
+  size: number,
+  center: Translation,
+  radius: number,
+): Translation {
+  let best = { ...center, difference: shiftedDifference(packaging, delivery, size, center.dx, center.dy), distance: 0 }
+  for (let dy = center.dy - radius; dy <= center.dy + radius; dy++) {
+    for (let dx = center.dx - radius; dx <= center.dx + radius; dx++) {
+      const difference = shiftedDifference(packaging, delivery, size, dx, dy)
+      const distance = Math.abs(dx - center.dx) + Math.abs(dy - center.dy)
+      if (difference < best.difference || (difference === best.difference && distance < best.distance)) {
+        best = { dx, dy, difference, distance }
+      }
+    }
+  }
+  return { dx: best.dx, dy: best.dy }
+}
+
+// Exhaustive search on a coarse copy, refined at full size around the coarse answer
+export function estimateTranslation(packaging: ArrayLike<number>, delivery: ArrayLike<number>, size: number): Translation {
+  const coarse = bestShift(
+    resizeChannel(packaging, size, size, ALIGN_SIZE, ALIGN_SIZE),
+    resizeChannel(delivery, size, size, ALIGN_SIZE, ALIGN_SIZE),
+    ALIGN_SIZE,
+    { dx: 0, dy: 0 },
+    Math.round(ALIGN_SIZE * MAX_SHIFT),
+  )
+  const scale = size / ALIGN_SIZE
+  return bestShift(
+    packaging,
+    delivery,
+    size,
+    { dx: Math.round(coarse.dx * scale), dy: Math.round(coarse.dy * scale) },
+    Math.ceil(scale),
+  )
+}
+
+// Blue through green and yellow to red, for 0-1
+const HEAT_STOPS: Array<[number, number, number]> = [
+  [49, 54, 149],
+  [69, 170, 120],
+  [250, 220, 60],
+  [215, 40, 40],
+]
+
+export function heatColor(value: number): [number, number, number] {
+  const position = Math.min(1, Math.max(0, value)) * (HEAT_STOPS.length - 1)
+  const index = Math.min(HEAT_STOPS.length - 2, Math.floor(position))
+  const t = position - index
+  const [from, to] = [HEAT_STOPS[index], HEAT_STOPS[index + 1]]
+  return [0, 1, 2].map((channel) => Math.round(from[channel] + t * (to[channel] - from[channel]))) as [number, number, number]
+}
+
+// Where the two photos differ, as an overlay for the delivery image: the packaging image is
+// aligned onto it, then each pixel takes the larger of 1 - local SSIM and the local mean
+// absolute difference. Colour and opacity both rise with the difference, so matching areas
+// stay clear; areas the shifted packaging image doesn't cover are transparent.
+export function differenceHeatmap(packaging: RgbaImage, delivery: RgbaImage): RgbaImage {
+  const size = SSIM_SIZE
+  const packagingLuminance = resizeChannel(toLuminance(packaging), packaging.width, packaging.height, size, size)
+  const deliveryLuminance = resizeChannel(toLuminance(delivery), delivery.width, delivery.height, size, size)
+  const { dx, dy } = estimateTranslation(packagingLuminance, deliveryLuminance, size)
+
+  // Uncovered pixels copy the delivery image so they read as identical
+  const aligned = new Float64Array(size * size)
+  const covered = new Uint8Array(size * size)
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const i = y * size + x
+      const sourceX = x - dx
+      const sourceY = y - dy
+      covered[i] = sourceX >= 0 && sourceX < size && sourceY >= 0 && sourceY < size ? 1 : 0
+      aligned[i] = covered[i] ? packagingLuminance[sourceY * size + sourceX] : deliveryLuminance[i]
+    }
+  }
+
+  const absoluteDifference = new Float64Array(size * size)
+  for (let i = 0; i < absoluteDifference.length; i++) {
+    absoluteDifference[i] = Math.abs(aligned[i] - deliveryLuminance[i])
+  }
+  const differenceSums = integral(absoluteDifference, size, size)
+  const stride = size + 1
+  const half = (SSIM_WINDOW - 1) / 2
+
+  const heat = new Float64Array(size * size)
+  forEachSsimWindow(aligned, deliveryLuminance, size, size, (x, y, ssim) => {
+    const meanDifference =
+      (differenceSums[(y + SSIM_WINDOW) * stride + x + SSIM_WINDOW] -
+        differenceSums[y * stride + x + SSIM_WINDOW] -
+        differenceSums[(y + SSIM_WINDOW) * stride + x] +
+        differenceSums[y * stride + x]) /
+      (SSIM_WINDOW * SSIM_WINDOW * 255)
+    heat[(y + half) * size + x + half] = Math.max(Math.min(1, Math.max(0, 1 - ssim)), meanDifference)
+  })
+
+  const data = new Uint8ClampedArray(size * size * 4)
+  for (let i = 0; i < heat.length; i++) {
+    const [r, g, b] = heatColor(heat[i])
+    data[i * 4] = r
+    data[i * 4 + 1] = g
+    data[i * 4 + 2] = b
+    data[i * 4 + 3] = covered[i] ? Math.round(255 * Math.min(1, heat[i] * 2)) : 0
+  }
+  return { data, width: size, height: size }
+}
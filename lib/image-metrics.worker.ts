@@ -0,0 +1,37 @@
+// Dedicated worker for the TypeScript metrics engine, so decoding, SSIM and the difference
+// heatmap never block the page; image-metrics-processor is its client.
+import { compareImageMetrics, differenceHeatmap } from "@/lib/image-metrics"
+import { readImageFilePixels, type RgbaImage } from "@/lib/image-pixels"
+import { serveJobs, type JobWorkerScope } from "@/lib/job-worker"
+import type { ImageMetricsJob } from "@/lib/worker-protocol"
+
+const worker = self as unknown as JobWorkerScope<ImageMetricsJob>
+
+// Statistics and edges are measured at this size at most; SSIM and MSE resize further anyway
+const METRICS_DIMENSION = 1024
+
+async function decodeBase64Image(base64: string) {
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  const { pixels } = await readImageFilePixels(new Blob([bytes]), METRICS_DIMENSION)
+  return pixels
+}
+
+async function encodePng({ data, width, height }: RgbaImage) {
+  const context = new OffscreenCanvas(width, height).getContext("2d")!
+  const image = context.createImageData(width, height)
+  image.data.set(data)
+  context.putImageData(image, 0, 0)
+  const bytes = new Uint8Array(await (await context.canvas.convertToBlob({ type: "image/png" })).arrayBuffer())
+  let binary = ""
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000))
+  }
+  return `data:image/png;base64,${btoa(binary)}`
+}
+
+serveJobs(worker, async (job) => {
+  const [packaging, delivery] = await Promise.all([decodeBase64Image(job.packaging), decodeBase64Image(job.delivery)])
+  return { ...compareImageMetrics(packaging, delivery), heatmap: await encodePng(differenceHeatmap(packaging, delivery)) }
+})
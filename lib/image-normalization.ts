@@ -0,0 +1,63 @@
+import {
+  GEMINI_SUPPORTED_FORMATS,
+  IMAGE_MIME_TYPES,
+  SNIFF_BYTE_LENGTH,
+  sniffImageFormat,
+  type ImageFormat,
+} from "@/lib/image-format"
+
+export type NormalizedImage = { file: File; format: ImageFormat; converted: boolean } | { error: string }
+
+const CONVERTED_QUALITY = 0.92
+
+function renameWithExtension(name: string, extension: string) {
+  const base = name.includes(".") ? name.slice(0, name.lastIndexOf(".")) : name
+  return `${base}.${extension}`
+}
+
+async function convertToJpeg(file: File): Promise<File> {
+  const bitmap = await createImageBitmap(file)
+  const canvas = document.createElement("canvas")
+  canvas.width = bitmap.width
+  canvas.height = bitmap.height
+
+  const context = canvas.getContext("2d")
+  if (!context) throw new Error("Canvas 2D context unavailable")
+  // JPEG has no alpha channel; flatten transparent areas onto white rather than black
+  context.fillStyle = "#ffffff"
+  context.fillRect(0, 0, canvas.width, canvas.height)
+  context.drawImage(bitmap, 0, 0)
+  bitmap.close()
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/jpeg", CONVERTED_QUALITY))
+  if (!blob) throw new Error("JPEG encoding failed")
+  return new File([blob], renameWithExtension(file.name, "jpg"), {
+    type: "image/jpeg",
+    lastModified: file.lastModified,
+  })
+}
+
+// Identifies the real format from the file's bytes (not its name or reported type),
+// relabels files Gemini accepts and converts the rest to JPEG in the browser.
+export async function normalizeImageFile(file: File): Promise<NormalizedImage> {
+  const header = new Uint8Array(await file.slice(0, SNIFF_BYTE_LENGTH).arrayBuffer())
+  const format = sniffImageFormat(header)
+
+  if (!format) {
+    return { error: "Not a recognised image. Use JPEG, PNG, WebP or HEIC photos." }
+  }
+
+  const mimeType = IMAGE_MIME_TYPES[format]
+  if (GEMINI_SUPPORTED_FORMATS.has(format)) {
+    const relabeled =
+      file.type === mimeType ? file : new File([file], file.name, { type: mimeType, lastModified: file.lastModified })
+    return { file: relabeled, format, converted: false }
+  }
+
+  try {
+    return { file: await convertToJpeg(file), format, converted: true }
+  } catch (error) {
+    console.warn(`Failed to convert ${format} image:`, error)
+    return { error: `${format.toUpperCase()} images can't be converted in this browser. Please upload a JPEG or PNG.` }
+  }
+}
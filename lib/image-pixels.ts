@@ -0,0 +1,48 @@
+// Raw pixel access shared by the on-device checks (barcode decoding, image quality)
+
+// Structurally compatible with ImageData
+export interface RgbaImage {
+  data: Uint8ClampedArray
+  width: number
+  height: number
+}
+
+// Rec. 601 luma, 0-255
+export function toLuminance({ data, width, height }: RgbaImage) {
+  const luminance = new Uint8Array(width * height)
+  for (let i = 0; i < luminance.length; i++) {
+    luminance[i] = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000
+  }
+  return luminance
+}
+
+export interface ImageFilePixels {
+  pixels: ImageData // scaled down to fit maxDimension
+  width: number // of the original image
+  height: number
+}
+
+// A 2D canvas on the page, or an offscreen one inside a worker
+function createCanvasContext(width: number, height: number) {
+  if (typeof document === "undefined") {
+    return new OffscreenCanvas(width, height).getContext("2d", { willReadFrequently: true })
+  }
+  const canvas = document.createElement("canvas")
+  canvas.width = width
+  canvas.height = height
+  return canvas.getContext("2d", { willReadFrequently: true })
+}
+
+// Browser only: decodes the image and draws it to a canvas no larger than maxDimension
+export async function readImageFilePixels(file: Blob, maxDimension: number): Promise<ImageFilePixels> {
+  const bitmap = await createImageBitmap(file)
+  const { width, height } = bitmap
+  const scale = Math.min(1, maxDimension / Math.max(width, height))
+  const context = createCanvasContext(Math.max(1, Math.round(width * scale)), Math.max(1, Math.round(height * scale)))
+  if (!context) throw new Error("Canvas 2D context unavailable")
+  const { width: canvasWidth, height: canvasHeight } = context.canvas
+  context.drawImage(bitmap, 0, 0, canvasWidth, canvasHeight)
+  bitmap.close()
+
+  return { pixels: context.getImageData(0, 0, canvasWidth, canvasHeight), width, height }
+}
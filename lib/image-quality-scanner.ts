@@ -0,0 +1,24 @@
+import { readImageFilePixels } from "@/lib/image-pixels"
+import { QUALITY_ANALYSIS_DIMENSION, assessImageQuality, type ImageQualityReport } from "@/lib/image-quality"
+
+// Files are assessed once, when they're added
+const reports = new WeakMap<File, Promise<ImageQualityReport | null>>()
+
+async function assess(file: File): Promise<ImageQualityReport> {
+  const { pixels, width, height } = await readImageFilePixels(file, QUALITY_ANALYSIS_DIMENSION)
+  return assessImageQuality(pixels, width, height)
+}
+
+// Runs the local quality checks in the browser. A file that can't be decoded here yields
+// null rather than an error: it was already accepted by the format check, so it isn't blocked.
+export function assessImageFile(file: File): Promise<ImageQualityReport | null> {
+  let result = reports.get(file)
+  if (!result) {
+    result = assess(file).catch((error) => {
+      console.warn(`Quality check failed for ${file.name}:`, error)
+      return null
+    })
+    reports.set(file, result)
+  }
+  return result
+}
@@ -0,0 +1,215 @@
+// Local photo quality checks run before an image is accepted for analysis. Dark, blurry or
+// tiny photos only get low-confidence answers from the model, so they're caught up front.
+// Pure pixel maths like the barcode decoder: no canvas or DOM.
+import { toLuminance, type RgbaImage } from "@/lib/image-pixels"
+
+export type QualityStatus = "pass" | "warn" | "fail"
+export type QualityCheckName = "resolution" | "sharpness" | "exposure" | "framing"
+
+export interface QualityCheck {
+  name: QualityCheckName
+  status: QualityStatus
+  value: number // the measured metric, see the check functions for units
+  message: string
+}
+
+export interface ImageQualityReport {
+  status: QualityStatus // the worst of the checks
+  checks: QualityCheck[]
+  reasons: string[] // messages of the checks that did not pass, worst first
+}
+
+// Metrics are measured on a copy no larger than this, so thresholds don't depend on the camera
+export const QUALITY_ANALYSIS_DIMENSION = 512
+
+const MIN_SHORT_SIDE = { fail: 480, warn: 720 } // px, of the original image
+const MIN_SHARPNESS = { fail: 40, warn: 100 } // Laplacian variance of the sharpest tiles
+const CLIPPED_FRACTION = { fail: 0.5, warn: 0.25 } // subject pixels at the ends of the histogram
+const MEAN_LUMINANCE = { min: { fail: 35, warn: 60 }, max: { fail: 230, warn: 205 } }
+const MIN_FRAME_FILL = { fail: 0.08, warn: 0.2 } // of the image area
+
+const SHARPNESS_GRID = 8
+const SHARPEST_TILE_FRACTION = 0.1 // a product on a plain background is sharp only where it is
+const DARK_LEVEL = 12
+const BRIGHT_LEVEL = 243
+const MIN_SUBJECT_FRACTION = 0.1 // below this, the frame is washed out rather than on a white backdrop
+const EDGE_THRESHOLD = 24 // |dx| + |dy| on 0-255 luminance
+const EDGE_PERCENTILE = 0.03 // trimmed from each side of the edge extent, against stray specks
+
+const STATUS_RANK: Record<QualityStatus, number> = { pass: 0, warn: 1, fail: 2 }
+
+const grade = (value: number, { fail, warn }: { fail: number; warn: number }): QualityStatus =>
+  value < fail ? "fail" : value < warn ? "warn" : "pass"
+
+export function checkResolution(width: number, height: number): QualityCheck {
+  const shortSide = Math.min(width, height)
+  const status = grade(shortSide, MIN_SHORT_SIDE)
+  return {
+    name: "resolution",
+    status,
+    value: shortSide,
+    message:
+      status === "pass"
+        ? `${width}×${height} px`
+        : `Low resolution (${width}×${height} px) - at least ${MIN_SHORT_SIDE.warn} px on the short side recommended`,
+  }
+}
+
+// Variance of the 4-neighbour Laplacian per tile; the score is the mean of the sharpest tiles
+export function checkSharpness(luminance: Uint8Array, width: number, height: number): QualityCheck {
+  const tileWidth = Math.max(3, Math.floor(width / SHARPNESS_GRID))
+  const tileHeight = Math.max(3, Math.floor(height / SHARPNESS_GRID))
+  const variances: number[] = []
+
+  for (let top = 1; top + tileHeight <= height - 1; top += tileHeight) {
+    for (let left = 1; left + tileWidth <= width - 1; left += tileWidth) {
+      let sum = 0
+      let sumOfSquares = 0
+      for (let y = top; y < top + tileHeight; y++) {
+        for (let x = left; x < left + tileWidth; x++) {
+          const i = y * width + x
+          const laplacian = luminance[i - 1] + luminance[i + 1] + luminance[i - width] + luminance[i + width] - 4 * luminance[i]
+          sum += laplacian
+          sumOfSquares += laplacian * laplacian
+        }
+      }
+      const count = tileWidth * tileHeight
+      variances.push(sumOfSquares / count - (sum / count) ** 2)
+    }
+  }
+
+  variances.sort((a, b) => b - a)
+  const sharpest = variances.slice(0, Math.max(1, Math.round(variances.length * SHARPEST_TILE_FRACTION)))
+  const score = sharpest.length > 0 ? sharpest.reduce((total, value) => total + value, 0) / sharpest.length : 0
+  const status = grade(score, MIN_SHARPNESS)
+  return {
+    name: "sharpness",
+    status,
+    value: Math.round(score),
+    message: status === "pass" ? "In focus" : status === "warn" ? "Slightly blurry" : "Too blurry - hold still and refocus",
+  }
+}
+
+// Bright pixels joined to the edge of the frame: a white backdrop rather than a blown-out product
+function findBrightBackground(luminance: Uint8Array, width: number, height: number): Uint8Array {
+  const background = new Uint8Array(luminance.length)
+  const stack: number[] = []
+  const visit = (i: number) => {
+    if (background[i] || luminance[i] < BRIGHT_LEVEL) return
+    background[i] = 1
+    stack.push(i)
+  }
+
+  for (let x = 0; x < width; x++) {
+    visit(x)
+    visit((height - 1) * width + x)
+  }
+  for (let y = 0; y < height; y++) {
+    visit(y * width)
+    visit(y * width + width - 1)
+  }
+  while (stack.length > 0) {
+    const i = stack.pop()!
+    const x = i % width
+    if (x > 0) visit(i - 1)
+    if (x < width - 1) visit(i + 1)
+    if (i >= width) visit(i - width)
+    if (i + width < luminance.length) visit(i + width)
+  }
+  return background
+}
+
+// Histogram mean and clipping at either end, measured on the subject so product photos on a
+// white background aren't taken for overexposed. When nearly everything is bright background
+// the whole frame is measured, as it's more likely washed out.
+export function checkExposure(luminance: Uint8Array, width: number, height: number): QualityCheck {
+  const background = findBrightBackground(luminance, width, height)
+  const backgroundCount = background.reduce((count, value) => count + value, 0)
+  const measureAll = luminance.length - backgroundCount < luminance.length * MIN_SUBJECT_FRACTION
+
+  const histogram = new Array<number>(256).fill(0)
+  luminance.forEach((value, i) => {
+    if (measureAll || !background[i]) histogram[value]++
+  })
+
+  const total = Math.max(1, measureAll ? luminance.length : luminance.length - backgroundCount)
+  const mean = histogram.reduce((sum, count, level) => sum + count * level, 0) / total
+  const dark = histogram.slice(0, DARK_LEVEL + 1).reduce((sum, count) => sum + count, 0) / total
+  const bright = histogram.slice(BRIGHT_LEVEL).reduce((sum, count) => sum + count, 0) / total
+
+  const underexposed: QualityStatus =
+    mean < MEAN_LUMINANCE.min.fail || dark > CLIPPED_FRACTION.fail
+      ? "fail"
+      : mean < MEAN_LUMINANCE.min.warn || dark > CLIPPED_FRACTION.warn
+        ? "warn"
+        : "pass"
+  const overexposed: QualityStatus =
+    mean > MEAN_LUMINANCE.max.fail || bright > CLIPPED_FRACTION.fail
+      ? "fail"
+      : mean > MEAN_LUMINANCE.max.warn || bright > CLIPPED_FRACTION.warn
+        ? "warn"
+        : "pass"
+
+  const value = Math.round(mean)
+  if (STATUS_RANK[underexposed] >= STATUS_RANK[overexposed] && underexposed !== "pass") {
+    return { name: "exposure", status: underexposed, value, message: "Too dark - add light or move to a brighter spot" }
+  }
+  if (overexposed !== "pass") {
+    return { name: "exposure", status: overexposed, value, message: "Overexposed - avoid direct light and glare" }
+  }
+  return { name: "exposure", status: "pass", value, message: "Well exposed" }
+}
+
+// The product is taken to span the edges in the image; a small extent means it's too far away
+export function checkFraming(luminance: Uint8Array, width: number, height: number): QualityCheck {
+  const xs: number[] = []
+  const ys: number[] = []
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x
+      const gradient = Math.abs(luminance[i + 1] - luminance[i - 1]) + Math.abs(luminance[i + width] - luminance[i - width])
+      if (gradient >= EDGE_THRESHOLD) {
+        xs.push(x)
+        ys.push(y)
+      }
+    }
+  }
+
+  let fill = 0
+  if (xs.length > 0) {
+    const extent = (values: number[]) => {
+      values.sort((a, b) => a - b)
+      const trim = Math.floor(values.length * EDGE_PERCENTILE)
+      return values[values.length - 1 - trim] - values[trim]
+    }
+    fill = (extent(xs) * extent(ys)) / (width * height)
+  }
+
+  const status = grade(fill, MIN_FRAME_FILL)
+  return {
+    name: "framing",
+    status,
+    value: Math.round(fill * 100) / 100,
+    message: status === "pass" ? "Product fills the frame" : "Product too small in the frame - move closer",
+  }
+}
+
+// image is the scaled-down copy; width and height are of the original photo
+export function assessImageQuality(image: RgbaImage, width: number, height: number): ImageQualityReport {
+  const luminance = toLuminance(image)
+  const checks = [
+    checkResolution(width, height),
+    checkSharpness(luminance, image.width, image.height),
+    checkExposure(luminance, image.width, image.height),
+    checkFraming(luminance, image.width, image.height),
+  ]
+
+  const failing = checks
+    .filter((check) => check.status !== "pass")
+    .sort((a, b) => STATUS_RANK[b.status] - STATUS_RANK[a.status])
+  return {
+    status: failing[0]?.status ?? "pass",
+    checks,
+    reasons: failing.map((check) => check.message),
+  }
+}
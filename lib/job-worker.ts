@@ -0,0 +1,149 @@
+// Both halves of the image workers: createJobWorkerClient on the page, serveJobs inside the
+// worker. Jobs run one at a time in the order they were sent; see worker-protocol for the messages.
+import type { WorkerErrorResponse, WorkerJob, WorkerRequest, WorkerResponse } from "@/lib/worker-protocol"
+
+export interface JobOptions {
+  signal?: AbortSignal
+  onProgress?: (message: string) => void
+}
+
+interface JobWorkerClientOptions {
+  name: string // for the console
+  createWorker: () => Worker
+  toError?: (response: WorkerErrorResponse) => Error
+  toCrashError?: (message: string) => Error // the worker script itself failed
+}
+
+interface PendingJob {
+  job: WorkerJob // kept to replay it on a fresh worker
+  resolve: (result: unknown) => void
+  reject: (error: Error) => void
+  onProgress?: (message: string) => void
+}
+
+// Returns a function that sends a job and waits for its result. Aborting drops the job if it's
+// still queued; a running job can't be interrupted, so the worker is terminated and the jobs
+// queued behind it move to a fresh one.
+export function createJobWorkerClient<Job extends WorkerJob, Results extends Record<Job["type"], unknown>>({
+  name,
+  createWorker,
+  toError = (response) => new Error(response.message),
+  toCrashError = (message) => new Error(message),
+}: JobWorkerClientOptions) {
+  let currentWorker: Worker | null = null
+  let nextJobId = 0
+  // In the order they were sent, which is the order the worker runs them in
+  const pendingJobs = new Map<number, PendingJob>()
+
+  function getWorker() {
+    if (currentWorker) return currentWorker
+
+    const worker = createWorker()
+    worker.onmessage = ({ data: response }: MessageEvent<WorkerResponse>) => {
+      const job = pendingJobs.get(response.id)
+      if (!job) return // cancelled or timed out on this side
+      if (response.type === "progress") {
+        job.onProgress?.(response.message)
+        return
+      }
+      pendingJobs.delete(response.id)
+      if (response.type === "result") job.resolve(response.result)
+      else job.reject(toError(response))
+    }
+    // Start a fresh worker for the next job
+    worker.onerror = (event) => {
+      event.preventDefault()
+      console.error(`${name} failed:`, event.message)
+      const error = toCrashError(event.message)
+      pendingJobs.forEach((job) => job.reject(error))
+      pendingJobs.clear()
+      worker.terminate()
+      if (currentWorker === worker) currentWorker = null
+    }
+    currentWorker = worker
+    return worker
+  }
+
+  function restartWorker() {
+    currentWorker?.terminate()
+    currentWorker = null
+    if (pendingJobs.size === 0) return
+    const worker = getWorker()
+    pendingJobs.forEach(({ job }, id) => worker.postMessage({ ...job, id } satisfies WorkerRequest<WorkerJob>))
+  }
+
+  return function runJob<J extends Job>(job: J, { signal, onProgress }: JobOptions = {}): Promise<Results[J["type"]]> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) return reject(signal.reason)
+
+      const worker = getWorker()
+      const id = nextJobId++
+      const onAbort = () => {
+        const running = pendingJobs.keys().next().value === id
+        pendingJobs.delete(id)
+        if (running) restartWorker()
+        else currentWorker?.postMessage({ type: "cancel", id } satisfies WorkerRequest<Job>)
+        reject(signal!.reason)
+      }
+      signal?.addEventListener("abort", onAbort, { once: true })
+
+      pendingJobs.set(id, {
+        job,
+        resolve: (result) => {
+          signal?.removeEventListener("abort", onAbort)
+          resolve(result as Results[J["type"]])
+        },
+        reject: (error) => {
+          signal?.removeEventListener("abort", onAbort)
+          reject(error)
+        },
+        onProgress,
+      })
+      worker.postMessage({ ...job, id } satisfies WorkerRequest<Job>)
+    })
+  }
+}
+
+// The worker global as serveJobs needs it; typed by hand since the project compiles against the DOM lib
+export interface JobWorkerScope<Job extends WorkerJob> {
+  postMessage(message: WorkerResponse): void
+  onmessage: ((event: MessageEvent<WorkerRequest<Job>>) => void) | null
+}
+
+// Worker side: runs each job after the previous one and answers with its result or error
+export function serveJobs<Job extends WorkerJob>(
+  scope: JobWorkerScope<Job>,
+  run: (job: Job, progress: (message: string) => void) => Promise<unknown>,
+  describeError: (error: unknown) => Pick<WorkerErrorResponse, "runtimeUnavailable"> = () => ({}),
+) {
+  const cancelled = new Set<number>()
+  let queue: Promise<void> = Promise.resolve()
+
+  scope.onmessage = ({ data: request }) => {
+    if (request.type === "cancel") {
+      cancelled.add(request.id)
+      return
+    }
+
+    const { id, ...job } = request as Job & { id: number }
+    queue = queue.then(async () => {
+      if (cancelled.delete(id)) {
+        scope.postMessage({ type: "error", id, message: "Cancelled", cancelled: true })
+        return
+      }
+      try {
+        const progress = (message: string) => scope.postMessage({ type: "progress", id, message })
+        scope.postMessage({ type: "result", id, result: await run(job as unknown as Job, progress) })
+      } catch (error) {
+        scope.postMessage({
+          type: "error",
+          id,
+          message: error instanceof Error ? error.message : String(error),
+          ...describeError(error),
+        })
+      } finally {
+        cancelled.delete(id) // a cancel that arrived while the job was running
+      }
+    })
+  }
+}
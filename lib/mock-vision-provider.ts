@@ -0,0 +1,210 @@
+import { readFileSync } from "fs"
+import { ANGLE_LABELS } from "@/lib/angle-pairing"
+import { hashVisionImage } from "@/lib/image-encoding"
+import type { VisionProvider, VisionRequest, VisionStage } from "@/lib/vision-provider"
+
+type CannedResponse = string | object
+
+// Canned model output keyed by the SHA-256 of an image, then by stage.
+// An array is consumed in order (the last entry repeats), which lets a script
+// play back e.g. a malformed answer followed by a valid one.
+export interface MockVisionScript {
+  responses?: Record<string, Partial<Record<VisionStage, CannedResponse | CannedResponse[]>>>
+}
+
+export function loadMockVisionScript(path: string): MockVisionScript {
+  return JSON.parse(readFileSync(path, "utf8"))
+}
+
+// Everything in the manifest section of the prompt is "visible"
+function mockOrderMatch(prompt: string) {
+  const accessories = prompt.match(/^- Expected accessories: (.+)$/m)?.[1].split(", ") ?? []
+  return {
+    matches_order: true,
+    discrepancies: [],
+    visible_accessories: accessories,
+    visible_quantity: Number(prompt.match(/^- Quantity: (\d+)$/m)?.[1] ?? 1),
+  }
+}
+
+function defaultResponse(request: VisionRequest, hashes: string[]): object {
+  const packagingCount = request.packagingImageCount ?? Math.ceil(hashes.length / 2)
+  const packagingHashes = hashes.slice(0, packagingCount)
+  const deliveryHashes = hashes.slice(packagingCount)
+  const identical = packagingHashes.join() === deliveryHashes.join()
+
+  switch (request.stage) {
+    case "identification": {
+      const side = {
+        product_name: "Mock Product Model X",
+        key_features: ["matte finish", "logo on front"],
+        condition: "new, no visible damage",
+        completeness: "all items visible",
+        quality_indicators: ["intact seal"],
+      }
+      return {
+        packaging_analysis: side,
+        delivery_analysis: side,
+        initial_comparison: {
+          products_match: true,
+          confidence_level: 90,
+          obvious_differences: [],
+          concerns: [],
+        },
+      }
+    }
+    case "product_identification":
+      return {
+        product_name: "Mock Product Model X",
+        brand: "Mock",
+        model: "Model X",
+        variant: "Standard",
+        category: "electronics",
+        key_identifiers: ["logo on front"],
+        confidence_level: 90,
+        ...(request.prompt.includes("The customer ordered:") && { order_match: mockOrderMatch(request.prompt) }),
+      }
+    case "identifier_extraction":
+      return {
+        identifiers: [
+          { type: "imei", value: "490154203237518", image_index: 0, location: "box label" },
+          { type: "ean", value: "4006381333931", image_index: 0, location: "box barcode" },
+        ],
+      }
+    case "similarity":
+      return {
+        similarity_percentage: identical ? 100 : 92,
+        detailed_differences: identical
+          ? []
+          : [
+              {
+                category: "lighting",
+                description: "Delivery photo is slightly darker",
+                severity: "low",
+                regions: [{ side: "delivery", image_index: 0, box: { x: 0.1, y: 0.1, width: 0.5, height: 0.4 } }],
+              },
+            ],
+        technical_analysis: {
+          color_variation: "minimal",
+          condition_change: "none",
+          completeness_score: 100,
+          packaging_integrity: "intact",
+          quality_assessment: "equivalent",
+        },
+        visual_differences: identical ? "None" : "Minor lighting variation",
+        summary: "Mock analysis: products are equivalent.",
+        recommendations: ["No action required"],
+      }
+    case "angle_classification": {
+      // Same labels in upload order on both sides, so the proposed pairing is index to index;
+      // the template's slots, if the prompt lists any, are filled in the same order
+      const slots = [...request.prompt.matchAll(/- slot "([a-z_]+)"/g)].map((match) => match[1])
+      return {
+        images: hashes.map((_, index) => ({
+          image_index: index,
+          angle: ANGLE_LABELS[index % ANGLE_LABELS.length],
+          confidence: 80,
+          ...(slots.length > 0 && { slot: slots[index] ?? "none" }),
+        })),
+      }
+    }
+    case "multi_angle": {
+      // Follow the confirmed pairs listed in the prompt, if any; otherwise pair by upload order
+      const confirmed = [...request.prompt.matchAll(/Packaging image (\d+) ↔ delivery image (\d+)/g)].map(
+        (match) => [Number(match[1]), Number(match[2])],
+      )
+      const pairs =
+        confirmed.length > 0
+          ? confirmed
+          : Array.from({ length: Math.min(packagingHashes.length, deliveryHashes.length) }, (_, index) => [index, index])
+      const angle_comparisons = pairs.map(([packagingIndex, deliveryIndex], index) => {
+        const same = packagingHashes[packagingIndex] === deliveryHashes[deliveryIndex]
+        return {
+          angle: `view_${index + 1}`,
+          packaging_image_index: packagingIndex,
+          delivery_image_index: deliveryIndex,
+          similarity_percentage: same ? 100 : 90,
+          differences: same
+            ? []
+            : [
+                {
+                  category: "lighting",
+                  description: "Minor lighting variation",
+                  severity: "low",
+                  regions: [{ side: "delivery", image_index: deliveryIndex, box: { x: 0.2, y: 0.2, width: 0.4, height: 0.3 } }],
+                },
+              ],
+          match_quality: same ? "excellent" : "good",
+        }
+      })
+      return {
+        product_identification: {
+          product_name: "Mock Product Model X",
+          category: "electronics",
+          key_identifiers: ["logo"],
+        },
+        packaging_analysis: {
+          total_images: packagingHashes.length,
+          angles_covered: angle_comparisons.map((comparison) => comparison.angle),
+          condition_summary: "new",
+          completeness: "complete",
+        },
+        delivery_analysis: {
+          total_images: deliveryHashes.length,
+          angles_covered: angle_comparisons.map((comparison) => comparison.angle),
+          condition_summary: "new",
+          completeness: "complete",
+        },
+        angle_comparisons,
+        overall_assessment: {
+          products_match: true,
+          overall_similarity: identical ? 100 : 90,
+          confidence_level: 90,
+          comprehensive_differences: identical
+            ? []
+            : [{ category: "lighting", description: "Minor lighting variation", severity: "low" }],
+          missing_angles: [],
+          quality_concerns: [],
+        },
+        technical_analysis: {
+          best_matching_angles: angle_comparisons.slice(0, 1).map((comparison) => comparison.angle),
+          worst_matching_angles: [],
+          coverage_completeness: 100,
+          validation_reliability: "high",
+        },
+        recommendations: ["No action required"],
+      }
+    }
+  }
+}
+
+// Deterministic, network-free provider for offline runs and tests
+export function createMockVisionProvider(script: MockVisionScript = {}): VisionProvider {
+  const playCounts = new Map<string, number>()
+
+  return {
+    name: "mock",
+    model: "mock-vision",
+
+    async generate(request: VisionRequest) {
+      request.signal?.throwIfAborted()
+      const hashes = await Promise.all(request.images.map(hashVisionImage))
+
+      for (const hash of hashes) {
+        const canned = script.responses?.[hash]?.[request.stage]
+        if (canned === undefined) continue
+
+        let response = canned
+        if (Array.isArray(canned)) {
+          const key = `${hash}:${request.stage}`
+          const played = playCounts.get(key) ?? 0
+          playCounts.set(key, played + 1)
+          response = canned[Math.min(played, canned.length - 1)]
+        }
+        return typeof response === "string" ? response : JSON.stringify(response)
+      }
+
+      return JSON.stringify(defaultResponse(request, hashes))
+    },
+  }
+}
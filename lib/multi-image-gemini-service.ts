@@ -1,109 +1,407 @@
 // Enhanced Gemini service for multiple image analysis
-const GEMINI_API_KEY = process.env.NEXT_PUBLIC_GEMINI_API_KEY!;
-const GEMINI_MODEL   = process.env.NEXT_PUBLIC_GEMINI_MODEL!;
-const GEMINI_ENDPOINT = 
-  `https://generativelanguage.googleapis.com/v1beta/models/` +
-  `${GEMINI_MODEL}:generateContent?key=${GEMINI_API_KEY}`;
+import { computeAnalysisCacheKey, readCachedAnalysis, writeCachedAnalysis } from "@/lib/analysis-cache"
+import { DEFAULT_STAGE_TIMEOUT_MS, withStageTimeout } from "@/lib/abort"
+import type { MultiImageAnalysisOptions } from "@/lib/analysis-options"
+import { createProgressReporter } from "@/lib/analysis-progress"
+import {
+  createIdentifierExtractionSchema,
+  createMultiAngleSchema,
+  createSideIdentificationSchema,
+  type SideIdentificationResponse,
+} from "@/lib/analysis-schemas"
+import { describeImagePairing } from "@/lib/angle-pairing"
+import {
+  compareIdentifiers,
+  describeIdentifierMismatches,
+  toExtractedIdentifier,
+  type IdentifierCheck,
+} from "@/lib/identifiers"
+import { compareBarcodes, describeBarcodeMismatch, type BarcodeCheck } from "@/lib/barcode-check"
+import { toDifference, type Difference } from "@/lib/differences"
+import { encodeImage, hashVisionImage } from "@/lib/image-encoding"
+import {
+  checkSideAgainstManifest,
+  describeOrderManifest,
+  type OrderCheck,
+  type OrderManifest,
+} from "@/lib/order-manifest"
+import {
+  compareProductIdentities,
+  formatProductIdentity,
+  type IdentityComparison,
+  type ProductIdentity,
+} from "@/lib/product-identity"
+import type { PixelComparison } from "@/lib/pixel-comparison"
+import { generateValidated } from "@/lib/structured-output"
+import { aggregateVerdict, type Verdict, type VerdictPenalty } from "@/lib/verdict"
+import { getVisionProvider, type VisionImage } from "@/lib/vision-provider"
 
-interface MultiImageAnalysisResult {
+// Bump whenever the prompt or response schema changes so cached results are not reused
+const PROMPT_VERSION = "multi-angle/11"
+
+// A brand, model or variant mismatch identified with less confidence than this is a warning:
+// the angle analysis still runs instead of the delivery failing outright
+const IDENTITY_MISMATCH_MIN_CONFIDENCE = 70
+
+export interface MultiImageAnalysisResult {
   packagingProduct: string
   deliveryProduct: string
-  areProductsSame: boolean
-  overallSimilarityPercentage: number
+  packagingIdentity: ProductIdentity
+  deliveryIdentity: ProductIdentity
+  identityMismatches: string[]
+  identityWarnings: string[] // identities that only partly agree; the angle analysis still ran
+  identifierCheck: IdentifierCheck // serial numbers, IMEIs, barcodes and batch codes read on each side
+  barcodeCheck?: BarcodeCheck // only when the client decoded barcodes on-device
+  areProductsSame: boolean // from the identity and identifier checks and the computed score
+  modelProductsMatch?: boolean // the model's own products_match, for reference only
+  overallSimilarityPercentage: number // computed by aggregateVerdict, not taken from the model
+  verdict: Verdict
+  verdictPenalties: VerdictPenalty[]
   angleAnalysis: AngleAnalysis[]
-  comprehensiveDifferences: string[]
+  comprehensiveDifferences: Difference[]
   detailedSummary: string
   confidenceScore: number
   technicalAnalysis: any
   recommendations: string[]
+  orderCheck?: OrderCheck // only when an order manifest was given
+  cachedAt?: string // set when the result was served from the analysis cache
 }
 
-interface AngleAnalysis {
+export interface AngleAnalysis {
   angle: string
   packagingImageIndex: number
   deliveryImageIndex: number
   similarityPercentage: number
-  differences: string[]
+  differences: Difference[]
   matchQuality: "excellent" | "good" | "fair" | "poor"
+  pixelComparison?: PixelComparison // added on the client, see pixel-comparison
+  pixelDisagreement?: string // set when the pixel comparison contradicts the model
+}
+
+type ImageSide = "packaging" | "delivery"
+
+// Identity and identifier findings decide the verdict on their own, so they rank as high severity
+const highSeverity = (category: string) => (description: string) =>
+  toDifference({ category, description, severity: "high" })
+
+function buildSideIdentificationPrompt(side: ImageSide, imageCount: number, manifest?: OrderManifest) {
+  const moment = side === "packaging" ? "packaging/seller time" : "delivery/customer time"
+  const orderSection = manifest
+    ? `
+
+The customer ordered:
+${describeOrderManifest(manifest)}
+
+Judge whether the product in these images is what was ordered (same product, brand and variant) and list the accessories you can see, using the names above where they apply.`
+    : ""
+  const orderField = manifest
+    ? `,
+  "order_match": {
+    "matches_order": true/false,
+    "discrepancies": ["how the product differs from the order"],
+    "visible_accessories": ["accessory1", "accessory2"],
+    "visible_quantity": 0
+  }`
+    : ""
+
+  return `You are an expert product analyst. These ${imageCount} image(s) all show one product at ${moment}, from different angles.
+
+Identify the product as precisely as the images allow. Read brand names, model numbers and variant details (colour, storage capacity, size, edition) from the product itself, its labels and its box. Use "unknown" for anything that is not visible - do not guess.${orderSection}
+
+Respond in JSON format:
+{
+  "product_name": "specific product with brand and model",
+  "brand": "brand name",
+  "model": "model name or number",
+  "variant": "colour / capacity / size / edition",
+  "category": "product category",
+  "key_identifiers": ["identifier1", "identifier2"],
+  "confidence_level": 0-100${orderField}
+}`
 }
 
-async function convertImageToBase64(file: File): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader()
-    reader.onload = () => {
-      const result = reader.result as string
-      resolve(result.split(",")[1])
+function buildIdentifierExtractionPrompt(side: ImageSide, imageCount: number) {
+  return `You are reading unit identifiers from ${imageCount} ${side} image(s) of one product.
+
+Transcribe every serial number, IMEI, EAN/UPC barcode number and batch/lot code printed on the product, its labels, stickers or its box - character by character, exactly as printed. Only include values you can read completely; skip anything cut off, blurred or covered. Do not infer or complete digits.
+
+Respond in JSON format:
+{
+  "identifiers": [
+    {
+      "type": "serial/imei/ean/upc/batch",
+      "value": "exactly as printed",
+      "image_index": 0,
+      "location": "where it was read, e.g. box label"
     }
-    reader.onerror = reject
-    reader.readAsDataURL(file)
-  })
+  ]
 }
 
-async function callGemini(prompt: string, images: string[]) {
-  const response = await fetch(GEMINI_ENDPOINT, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      contents: [
-        {
-          parts: [
-            { text: prompt },
-            ...images.map((image) => ({
-              inline_data: {
-                mime_type: "image/jpeg",
-                data: image,
-              },
-            })),
-          ],
-        },
-      ],
-      generationConfig: {
-        temperature: 0.1,
-        topK: 32,
-        topP: 1,
-        maxOutputTokens: 8192, // Increased for multiple image analysis
-      },
-    }),
-  })
+image_index is 0-based within these ${imageCount} image(s). Return an empty list if no identifier is legible.`
+}
 
-  if (!response.ok) {
-    const errorText = await response.text()
-    console.error("Gemini API Error:", response.status, errorText)
-    throw new Error(`Gemini API error: ${response.status} - ${response.statusText}`)
+function toProductIdentity(identification: SideIdentificationResponse): ProductIdentity {
+  return {
+    productName: identification.product_name,
+    brand: identification.brand,
+    model: identification.model,
+    variant: identification.variant,
+    category: identification.category,
   }
+}
+
+// Mirrors the single-image mismatch summary: the angle comparison is skipped entirely
+function buildMismatchResult({
+  packagingIdentity,
+  deliveryIdentity,
+  identity,
+  identifierCheck,
+  barcodeCheck,
+  orderCheck,
+  confidenceScore,
+  imageCounts,
+}: {
+  packagingIdentity: ProductIdentity
+  deliveryIdentity: ProductIdentity
+  identity: IdentityComparison
+  identifierCheck: IdentifierCheck
+  barcodeCheck: BarcodeCheck | undefined
+  orderCheck: OrderCheck | undefined
+  confidenceScore: number
+  imageCounts: { packaging: number; delivery: number }
+}): MultiImageAnalysisResult {
+  const packagingProduct = formatProductIdentity(packagingIdentity)
+  const deliveryProduct = formatProductIdentity(deliveryIdentity)
 
-  const data = await response.json()
-  return data.candidates[0].content.parts[0].text
+  return {
+    packagingProduct: packagingIdentity.productName,
+    deliveryProduct: deliveryIdentity.productName,
+    packagingIdentity,
+    deliveryIdentity,
+    identityMismatches: identity.mismatches,
+    identityWarnings: [],
+    identifierCheck,
+    barcodeCheck,
+    areProductsSame: false,
+    overallSimilarityPercentage: 0,
+    verdict: "fail",
+    verdictPenalties: [],
+    angleAnalysis: [],
+    comprehensiveDifferences: [
+      highSeverity("product_identity")(`Packaging shows ${packagingProduct}, delivery shows ${deliveryProduct}`),
+      ...identity.mismatches.map(highSeverity("product_identity")),
+      ...describeIdentifierMismatches(identifierCheck).map(highSeverity("identifier")),
+      ...(barcodeCheck ? describeBarcodeMismatch(barcodeCheck) : []).map(highSeverity("identifier")),
+    ],
+    detailedSummary: `DELIVERY MISMATCH DETECTED: The packaging images contain "${packagingProduct}" while the delivery images show "${deliveryProduct}". This indicates a serious delivery error that requires immediate attention and investigation.`,
+    confidenceScore,
+    technicalAnalysis: {
+      mismatch_type: "different_products",
+      packaging_product: packagingProduct,
+      delivery_product: deliveryProduct,
+      confidence: confidenceScore,
+      total_packaging_images: imageCounts.packaging,
+      total_delivery_images: imageCounts.delivery,
+      angles_analyzed: 0,
+      missing_angles: [],
+    },
+    recommendations: [
+      "Do not complete the hand-over - escalate the order for investigation",
+      "Photograph the delivered item's labels and serial number for the claim",
+    ],
+    orderCheck,
+  }
 }
 
 export async function analyzeMultipleImages(
   packagingImages: File[],
   deliveryImages: File[],
+  {
+    provider = getVisionProvider(),
+    cache,
+    onProgress,
+    signal,
+    stageTimeoutMs = DEFAULT_STAGE_TIMEOUT_MS,
+    manifest,
+    barcodes,
+    pairing,
+  }: MultiImageAnalysisOptions = {},
 ): Promise<MultiImageAnalysisResult> {
+  const progress = createProgressReporter(
+    { encoding: 10, product_identification: 20, identifier_extraction: 15, multi_angle: 45, parsing: 5, aggregation: 5 },
+    onProgress,
+  )
+
   try {
     // Convert all images to base64
-    const packagingBase64 = await Promise.all(packagingImages.map((img) => convertImageToBase64(img)))
-    const deliveryBase64 = await Promise.all(deliveryImages.map((img) => convertImageToBase64(img)))
+    const totalImages = packagingImages.length + deliveryImages.length
+    progress.start("encoding", `Encoding ${totalImages} images...`)
+    const packagingEncoded = await Promise.all(packagingImages.map((img) => encodeImage(img)))
+    const deliveryEncoded = await Promise.all(deliveryImages.map((img) => encodeImage(img)))
 
     // Combine all images for analysis
-    const allImages = [...packagingBase64, ...deliveryBase64]
+    const allImages = [...packagingEncoded, ...deliveryEncoded]
+    progress.complete("encoding", `Encoded ${totalImages} images`)
+    signal?.throwIfAborted()
+
+    const cacheKey =
+      cache &&
+      (await computeAnalysisCacheKey({
+        kind: "multi",
+        model: provider.model,
+        promptVersion: PROMPT_VERSION,
+        packagingHashes: await Promise.all(packagingEncoded.map(hashVisionImage)),
+        deliveryHashes: await Promise.all(deliveryEncoded.map(hashVisionImage)),
+        inputs: { manifest, barcodes, pairing },
+      }))
+
+    if (cache && cacheKey) {
+      const cached = await readCachedAnalysis<MultiImageAnalysisResult>(cache, cacheKey)
+      if (cached) {
+        progress.finish("cache", "Loaded a cached result for these images")
+        return cached
+      }
+    }
+
+    // Step 1: Identify each side on its own images only, so the packed product can't
+    // lend its identity to whatever was delivered
+    progress.start("product_identification", "Identifying the packaged and delivered products separately...")
+    const identifySide = (side: ImageSide, images: VisionImage[]) =>
+      withStageTimeout("product_identification", stageTimeoutMs, signal, (stageSignal) =>
+        generateValidated(
+          provider,
+          {
+            stage: "product_identification",
+            prompt: buildSideIdentificationPrompt(side, images.length, manifest),
+            images,
+            packagingImageCount: side === "packaging" ? images.length : 0,
+            onRetry: progress.retry,
+            signal: stageSignal,
+          },
+          createSideIdentificationSchema(!!manifest),
+          progress,
+        ),
+      )
+
+    // Identifiers are read in the same round, also per side, and compared exactly
+    progress.start("identifier_extraction", "Reading serial numbers, IMEIs and barcodes...")
+    const extractIdentifiers = (side: ImageSide, images: VisionImage[]) =>
+      withStageTimeout("identifier_extraction", stageTimeoutMs, signal, (stageSignal) =>
+        generateValidated(
+          provider,
+          {
+            stage: "identifier_extraction",
+            prompt: buildIdentifierExtractionPrompt(side, images.length),
+            images,
+            packagingImageCount: side === "packaging" ? images.length : 0,
+            onRetry: progress.retry,
+            signal: stageSignal,
+          },
+          createIdentifierExtractionSchema(images.length),
+          progress,
+        ),
+      )
+
+    const [packagingIdentification, deliveryIdentification, packagingIdentifiers, deliveryIdentifiers] =
+      await Promise.all([
+        identifySide("packaging", packagingEncoded),
+        identifySide("delivery", deliveryEncoded),
+        extractIdentifiers("packaging", packagingEncoded),
+        extractIdentifiers("delivery", deliveryEncoded),
+      ])
+
+    const identifierCheck = compareIdentifiers(
+      packagingIdentifiers.identifiers.map(toExtractedIdentifier),
+      deliveryIdentifiers.identifiers.map(toExtractedIdentifier),
+    )
+    const barcodeCheck =
+      barcodes && compareBarcodes(barcodes, [...identifierCheck.packaging, ...identifierCheck.delivery], manifest)
+    const identifierMismatches = [
+      ...describeIdentifierMismatches(identifierCheck),
+      ...(barcodeCheck ? describeBarcodeMismatch(barcodeCheck) : []),
+    ]
+    const identifiersMismatch = identifierCheck.mismatch || barcodeCheck?.mismatch === true
+    const identifiersCompared = identifierCheck.comparisons.some(
+      (comparison) => comparison.packaging.length > 0 && comparison.delivery.length > 0,
+    )
+    progress.complete(
+      "identifier_extraction",
+      identifiersMismatch
+        ? "Identifiers differ between packaging and delivery"
+        : `Read ${identifierCheck.packaging.length + identifierCheck.delivery.length} identifiers`,
+    )
+
+    const packagingIdentity = toProductIdentity(packagingIdentification)
+    const deliveryIdentity = toProductIdentity(deliveryIdentification)
+    const identity = compareProductIdentities(packagingIdentity, deliveryIdentity)
+    const identificationConfidence = Math.min(
+      packagingIdentification.confidence_level,
+      deliveryIdentification.confidence_level,
+    )
+
+    let orderCheck: OrderCheck | undefined
+    if (manifest) {
+      const packagingOrder = checkSideAgainstManifest(manifest, packagingIdentity, packagingIdentification.order_match)
+      const deliveryOrder = checkSideAgainstManifest(manifest, deliveryIdentity, deliveryIdentification.order_match)
+      orderCheck = {
+        manifest,
+        matches: packagingOrder.matches && deliveryOrder.matches && barcodeCheck?.manifest !== "mismatch",
+        packaging: packagingOrder,
+        delivery: deliveryOrder,
+        barcode: barcodeCheck?.manifest,
+      }
+    }
+
+    if (!identity.match && identificationConfidence >= IDENTITY_MISMATCH_MIN_CONFIDENCE) {
+      progress.complete("product_identification", "Different products identified on each side")
+      progress.skip("multi_angle")
+      progress.start("aggregation", "Preparing the mismatch report...")
+      const mismatchResult = buildMismatchResult({
+        packagingIdentity,
+        deliveryIdentity,
+        identity,
+        identifierCheck,
+        barcodeCheck,
+        orderCheck,
+        confidenceScore: identificationConfidence,
+        imageCounts: { packaging: packagingImages.length, delivery: deliveryImages.length },
+      })
+      if (cache && cacheKey) await writeCachedAnalysis(cache, cacheKey, mismatchResult)
+      progress.complete("aggregation", "Analysis complete")
+      return mismatchResult
+    }
+    const identityWarnings = [
+      ...identity.mismatches.map(
+        (mismatch) => `${mismatch} (identified with ${identificationConfidence}% confidence - compare the images)`,
+      ),
+      ...identity.uncertain.map((mismatch) => `${mismatch} (possibly the same product named differently)`),
+    ]
+    progress.complete(
+      "product_identification",
+      identity.match
+        ? `Both sides show ${packagingIdentity.productName}`
+        : "The identities differ at low confidence - comparing the angles anyway",
+    )
 
-    // Step 1: Comprehensive Multi-Angle Product Analysis
+    // Step 2: Comprehensive Multi-Angle Product Analysis
     const analysisPrompt = `You are an expert product validation specialist analyzing multiple images of the same product from different angles. 
 
 PACKAGING IMAGES (First ${packagingImages.length} images): These show the product at packaging/seller time
 DELIVERY IMAGES (Next ${deliveryImages.length} images): These show the product at delivery/customer time
-
+${manifest ? `\nORDER MANIFEST (what the customer ordered - use it for the completeness check):\n${describeOrderManifest(manifest)}\n` : ""}${
+      pairing?.length
+        ? `\nIMAGE PAIRS (confirmed before the analysis - compare exactly these, one angle_comparisons entry per pair, with these 0-based indices):\n${describeImagePairing(pairing)}\n`
+        : ""
+    }
 Perform a comprehensive multi-angle analysis:
 
 1. **Product Identification**: Identify the specific product across all images
 2. **Angle Analysis**: Analyze each angle/view (front, back, sides, top, bottom, details)
-3. **Cross-Reference Validation**: Compare corresponding angles between packaging and delivery
+3. **Cross-Reference Validation**: Compare corresponding angles between packaging and delivery${pairing?.length ? " (the image pairs above)" : ""}
 4. **Condition Assessment**: Evaluate condition changes across all angles
 5. **Completeness Check**: Verify all components, accessories, packaging integrity
 6. **Quality Scoring**: Provide similarity scores for each comparable angle
+7. **Localization**: Mark where each difference is visible with regions: the side, the image_index within that side (0-based), and a box whose x, y, width and height are fractions (0-1) of the image width and height, measured from the top-left corner
 
 Respond in JSON format:
 {
@@ -130,7 +428,20 @@ Respond in JSON format:
       "packaging_image_index": 0,
       "delivery_image_index": 0,
       "similarity_percentage": 85,
-      "differences": ["difference1", "difference2"],
+      "differences": [
+        {
+          "category": "physical_condition",
+          "description": "specific difference description",
+          "severity": "low/medium/high",
+          "regions": [
+            {
+              "side": "packaging/delivery",
+              "image_index": 0,
+              "box": { "x": 0.1, "y": 0.2, "width": 0.3, "height": 0.15 }
+            }
+          ]
+        }
+      ],
       "match_quality": "good"
     }
   ],
@@ -138,7 +449,9 @@ Respond in JSON format:
     "products_match": true/false,
     "overall_similarity": 0-100,
     "confidence_level": 0-100,
-    "comprehensive_differences": ["diff1", "diff2"],
+    "comprehensive_differences": [
+      { "category": "physical_condition", "description": "difference across the whole set", "severity": "low/medium/high" }
+    ],
     "missing_angles": ["angle1", "angle2"],
     "quality_concerns": ["concern1", "concern2"]
   },
@@ -151,43 +464,83 @@ Respond in JSON format:
   "recommendations": ["recommendation1", "recommendation2"]
 }`
 
-    const analysisResponse = await callGemini(analysisPrompt, allImages)
-    let analysis
+    progress.start("multi_angle", `Comparing ${totalImages} images across angles with ${provider.name}...`)
+    const analysis = await withStageTimeout("multi_angle", stageTimeoutMs, signal, (stageSignal) =>
+      generateValidated(
+        provider,
+        {
+          stage: "multi_angle",
+          prompt: analysisPrompt,
+          images: allImages,
+          packagingImageCount: packagingImages.length,
+          onRetry: progress.retry,
+          signal: stageSignal,
+          maxOutputTokens: 8192, // Increased for multiple image analysis
+        },
+        createMultiAngleSchema(packagingImages.length, deliveryImages.length, pairing),
+        progress,
+      ),
+    )
+    const pairCount = analysis.angle_comparisons.length
+    progress.complete("multi_angle", `Compared ${pairCount} angle pair${pairCount !== 1 ? "s" : ""}`)
 
-    try {
-      const jsonMatch = analysisResponse.match(/\{[\s\S]*\}/)
-      if (jsonMatch) {
-        analysis = JSON.parse(jsonMatch[0])
-      } else {
-        throw new Error("No JSON found in response")
-      }
-    } catch (parseError) {
-      console.error("Failed to parse analysis JSON:", analysisResponse)
-      throw new Error("Failed to parse multi-image analysis. Please try again.")
-    }
+    progress.start("aggregation", "Aggregating angle results...")
 
     // Process the results
-    const angleAnalysis: AngleAnalysis[] = analysis.angle_comparisons.map((comp: any) => ({
+    const angleAnalysis: AngleAnalysis[] = analysis.angle_comparisons.map((comp) => ({
       angle: comp.angle,
       packagingImageIndex: comp.packaging_image_index,
       deliveryImageIndex: comp.delivery_image_index,
       similarityPercentage: comp.similarity_percentage,
-      differences: comp.differences,
+      differences: comp.differences.map(toDifference),
       matchQuality: comp.match_quality,
     }))
 
-    return {
-      packagingProduct: analysis.product_identification.product_name,
-      deliveryProduct: analysis.product_identification.product_name,
-      areProductsSame: analysis.overall_assessment.products_match,
-      overallSimilarityPercentage: analysis.overall_assessment.overall_similarity,
+    const aggregated = aggregateVerdict({
+      angles: analysis.angle_comparisons.map((comp) => ({
+        angle: comp.angle,
+        similarityPercentage: comp.similarity_percentage,
+        matchQuality: comp.match_quality,
+        severities: comp.differences.map((diff) => diff.severity),
+      })),
+      missingAngles: analysis.overall_assessment.missing_angles,
+      overallSeverities: analysis.overall_assessment.comprehensive_differences.map((diff) => diff.severity),
+      identityUncertain: identityWarnings.length > 0,
+      matchesOrder: orderCheck?.matches,
+      identifiersMatch: identifiersMismatch ? false : identifiersCompared || undefined,
+      modelOverallSimilarity: analysis.overall_assessment.overall_similarity,
+      modelProductsMatch: analysis.overall_assessment.products_match,
+    })
+
+    const result: MultiImageAnalysisResult = {
+      packagingProduct: packagingIdentity.productName,
+      deliveryProduct: deliveryIdentity.productName,
+      packagingIdentity,
+      deliveryIdentity,
+      identityMismatches: [],
+      identityWarnings,
+      identifierCheck,
+      barcodeCheck,
+      areProductsSame: aggregated.productsSame,
+      modelProductsMatch: aggregated.modelProductsMatch,
+      overallSimilarityPercentage: aggregated.overallSimilarity,
+      verdict: aggregated.verdict,
+      verdictPenalties: aggregated.penalties,
       angleAnalysis,
-      comprehensiveDifferences: analysis.overall_assessment.comprehensive_differences,
+      comprehensiveDifferences: [
+        ...identityWarnings.map((description) =>
+          toDifference({ category: "product_identity", description, severity: "medium" }),
+        ),
+        ...identifierMismatches.map(highSeverity("identifier")),
+        ...analysis.overall_assessment.comprehensive_differences.map(toDifference),
+      ],
       detailedSummary: `Multi-angle analysis of ${analysis.product_identification.product_name} completed. 
         Analyzed ${packagingImages.length} packaging images and ${deliveryImages.length} delivery images. 
-        Overall similarity: ${analysis.overall_assessment.overall_similarity}%. 
-        ${analysis.overall_assessment.products_match ? "Products match across all angles." : "Significant discrepancies detected."}
-        Coverage completeness: ${analysis.technical_analysis.coverage_completeness}%.`,
+        Overall similarity: ${aggregated.overallSimilarity}%. 
+        ${aggregated.productsSame ? "Products match across all angles." : "Significant discrepancies detected."}
+        Coverage completeness: ${analysis.technical_analysis.coverage_completeness}%.${
+          orderCheck ? ` ${orderCheck.matches ? "Matches" : "Does NOT match"} order ${orderCheck.manifest.sku}.` : ""
+        }`,
       confidenceScore: analysis.overall_assessment.confidence_level,
       technicalAnalysis: {
         ...analysis.technical_analysis,
@@ -195,9 +548,20 @@ Respond in JSON format:
         total_delivery_images: deliveryImages.length,
         angles_analyzed: analysis.angle_comparisons.length,
         missing_angles: analysis.overall_assessment.missing_angles,
+        weighted_similarity: aggregated.weightedSimilarity,
+        model_overall_similarity: aggregated.modelOverallSimilarity,
+        model_disagreement: aggregated.modelDisagreement,
+        high_severity_differences: aggregated.highSeverityCount,
       },
-      recommendations: analysis.recommendations,
+      recommendations: identifiersMismatch
+        ? ["Hold the delivery - its identifiers don't match the packed unit", ...analysis.recommendations]
+        : analysis.recommendations,
+      orderCheck,
     }
+
+    if (cache && cacheKey) await writeCachedAnalysis(cache, cacheKey, result)
+    progress.complete("aggregation", "Analysis complete")
+    return result
   } catch (error) {
     console.error("Error analyzing multiple images:", error)
     if (error instanceof Error) {
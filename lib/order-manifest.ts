@@ -0,0 +1,111 @@
+import { z } from "zod"
+import type { OrderAssessment } from "@/lib/analysis-schemas"
+import type { ManifestBarcodeStatus } from "@/lib/barcode-check"
+import { compareProductIdentities, type ProductIdentity } from "@/lib/product-identity"
+
+// What the customer actually ordered. Optional: without it, a wrong item that was packed
+// and delivered consistently still "passes" the packaging vs delivery comparison.
+export const orderManifestSchema = z.object({
+  sku: z.string().trim().min(1, "SKU is required"),
+  title: z.string().trim().min(1, "Title is required"),
+  brand: z.string().trim().optional(),
+  variant: z.string().trim().optional(),
+  quantity: z.number().int().positive().default(1),
+  expectedAccessories: z.array(z.string().trim().min(1)).default([]),
+})
+
+export type OrderManifest = z.infer<typeof orderManifestSchema>
+
+export interface SideOrderCheck {
+  matches: boolean
+  discrepancies: string[]
+  missingAccessories: string[]
+}
+
+export interface OrderCheck {
+  manifest: OrderManifest
+  matches: boolean
+  packaging: SideOrderCheck
+  delivery: SideOrderCheck
+  barcode?: ManifestBarcodeStatus // the SKU compared with the barcodes decoded on-device
+}
+
+// Accepts the JSON sent in the "manifest" form field
+export function parseOrderManifest(json: string): OrderManifest {
+  let raw: unknown
+  try {
+    raw = JSON.parse(json)
+  } catch {
+    throw new Error("The order manifest is not valid JSON")
+  }
+
+  const parsed = orderManifestSchema.safeParse(raw)
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join(".") || "manifest"}: ${issue.message}`)
+    throw new Error(`Invalid order manifest: ${issues.join("; ")}`)
+  }
+  return parsed.data
+}
+
+export function describeOrderManifest(manifest: OrderManifest) {
+  const lines = [
+    `- SKU: ${manifest.sku}`,
+    `- Title: ${manifest.title}`,
+    manifest.brand && `- Brand: ${manifest.brand}`,
+    manifest.variant && `- Variant: ${manifest.variant}`,
+    `- Quantity: ${manifest.quantity}`,
+    manifest.expectedAccessories.length > 0 && `- Expected accessories: ${manifest.expectedAccessories.join(", ")}`,
+  ]
+  return lines.filter(Boolean).join("\n")
+}
+
+// An empty name would be contained in every other one
+const includesLoosely = (a: string, b: string) => {
+  const left = a.trim().toLowerCase()
+  const right = b.trim().toLowerCase()
+  if (!left || !right) return false
+  return left.includes(right) || right.includes(left)
+}
+
+export function checkSideAgainstManifest(
+  manifest: OrderManifest,
+  identity: ProductIdentity,
+  assessment: OrderAssessment | undefined,
+): SideOrderCheck {
+  // Brand and variant are compared deterministically; the title is free text, so the
+  // model's judgement covers it
+  const expected: ProductIdentity = {
+    productName: manifest.title,
+    brand: manifest.brand ?? "unknown",
+    model: "unknown",
+    variant: manifest.variant ?? "unknown",
+    category: "unknown",
+  }
+  const discrepancies = compareProductIdentities(expected, identity).mismatches.map(
+    (mismatch) => `Order ${mismatch.charAt(0).toLowerCase()}${mismatch.slice(1)}`,
+  )
+
+  // Without the model's assessment nothing beyond brand and variant was checked, so the order
+  // counts as unverified rather than matched
+  if (!assessment) {
+    discrepancies.push("The model did not assess this side against the order - verify it manually")
+  }
+  if (assessment && !assessment.matches_order) {
+    discrepancies.push(...(assessment.discrepancies.length > 0 ? assessment.discrepancies : ["Product does not match the order"]))
+  }
+  if (assessment && assessment.visible_quantity > 0 && assessment.visible_quantity < manifest.quantity) {
+    discrepancies.push(`Quantity: ordered ${manifest.quantity}, ${assessment.visible_quantity} visible`)
+  }
+
+  const missingAccessories = assessment
+    ? manifest.expectedAccessories.filter(
+        (accessory) => !assessment.visible_accessories.some((visible) => includesLoosely(visible, accessory)),
+      )
+    : []
+
+  return {
+    matches: discrepancies.length === 0 && missingAccessories.length === 0,
+    discrepancies,
+    missingAccessories,
+  }
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest"
+import type { AngleAnalysis } from "@/lib/multi-image-gemini-service"
+import { findPixelDisagreement, type PixelComparison } from "@/lib/pixel-comparison"
+
+const angle = (matchQuality: AngleAnalysis["matchQuality"], similarityPercentage: number): AngleAnalysis => ({
+  angle: "front",
+  packagingImageIndex: 0,
+  deliveryImageIndex: 0,
+  similarityPercentage,
+  differences: [],
+  matchQuality,
+})
+
+const pixels = (similarityPercentage: number, method: PixelComparison["method"] = "advanced"): PixelComparison => ({
+  similarityPercentage,
+  method,
+  engine: "typescript",
+  brightnessDiff: 0,
+  contrastDiff: 0,
+  colorDiff: 0,
+  differences: [],
+})
+
+describe("findPixelDisagreement", () => {
+  it("accepts the SSIM of two separate photos of a matching product", () => {
+    expect(findPixelDisagreement(angle("excellent", 96), pixels(55))).toBeNull()
+    expect(findPixelDisagreement(angle("good", 88), pixels(40))).toBeNull()
+    expect(findPixelDisagreement(angle("poor", 30), pixels(20))).toBeNull()
+  })
+
+  it("flags an SSIM below the model's band as changes the model missed", () => {
+    expect(findPixelDisagreement(angle("excellent", 96), pixels(20))).toMatch(/changes the model missed/)
+  })
+
+  it("flags an SSIM above the model's band as images closer than rated", () => {
+    expect(findPixelDisagreement(angle("poor", 30), pixels(92))).toMatch(/lighting or framing/)
+  })
+
+  it("reads the MSE-based score on its own, compressed scale", () => {
+    expect(findPixelDisagreement(angle("excellent", 96), pixels(95, "basic"))).toBeNull()
+    expect(findPixelDisagreement(angle("excellent", 96), pixels(90, "basic"))).toMatch(/Pixel similarity is 90%/)
+    expect(findPixelDisagreement(angle("fair", 65), pixels(90, "basic"))).toBeNull()
+  })
+})
@@ -0,0 +1,190 @@
+// A second opinion on every compared angle: a pixel comparison runs on this device once the
+// model's result is in, and an angle where the two disagree widely is flagged for review rather
+// than trusted on either score alone. The TypeScript metrics engine is the default; the Pyodide
+// worker computes the same metrics in Python when NEXT_PUBLIC_PIXEL_ENGINE=python.
+import type { MatchQuality } from "@/lib/analysis-schemas"
+import type { PixelComparisonEngine, PixelComparisonOutput } from "@/lib/image-metrics"
+import { processImagesWithMetrics } from "@/lib/image-metrics-processor"
+import type { AngleAnalysis, MultiImageAnalysisResult } from "@/lib/multi-image-gemini-service"
+import { PythonRuntimeError, processImagesWithPython } from "@/lib/python-image-processor"
+
+export type PixelEngine = "typescript" | "python"
+
+export const PIXEL_ENGINE: PixelEngine = process.env.NEXT_PUBLIC_PIXEL_ENGINE === "python" ? "python" : "typescript"
+
+const ENGINES: Record<PixelEngine, PixelComparisonEngine> = {
+  typescript: processImagesWithMetrics,
+  python: processImagesWithPython,
+}
+
+export interface PixelComparison {
+  similarityPercentage: number // SSIM with scikit-image, otherwise 1 - normalised MSE; 0-100
+  method: "advanced" | "basic" // "advanced" is SSIM
+  engine: PixelEngine
+  brightnessDiff: number // 0-255 mean levels
+  contrastDiff: number
+  colorDiff: number // largest per-channel mean difference
+  edgeDiff?: number // edge density, 0-1; advanced only
+  psnr?: number // dB, TypeScript engine only; Infinity for identical images
+  differences: string[]
+  heatmap?: string // PNG data URL over the delivery image, see differenceHeatmap
+}
+
+// The pixel similarity, [lowest, highest], that agrees with each of the model's rating bands,
+// per metric. The two scales can't be compared point for point: two photos of the same product
+// taken apart differ in framing, lighting and sensor noise, so SSIM for a perfect match sits well
+// below 100, while 1 - normalised MSE is squeezed into the top few points even for unrelated
+// images. A pixel score below the band's range means the pixels see changes the model didn't;
+// one above it means the pixels are closer than the model's rating allows.
+const AGREEING_PIXEL_RANGES: Record<PixelComparison["method"], Record<MatchQuality, [number, number]>> = {
+  advanced: { excellent: [45, 100], good: [35, 100], fair: [15, 95], poor: [0, 85] },
+  basic: { excellent: [94, 100], good: [92, 100], fair: [88, 100], poor: [0, 99] },
+}
+
+// Checked field by field: the Python output is only as well-formed as the script that produced it
+export function toPixelComparison(raw: PixelComparisonOutput): PixelComparison {
+  const features = raw?.features_comparison
+  if (typeof raw?.similarity_percentage !== "number" || !features || "error" in features) {
+    throw new Error(
+      features && "error" in features ? `Pixel comparison failed: ${features.error}` : "Pixel comparison failed",
+    )
+  }
+  return {
+    similarityPercentage: Math.round(raw.similarity_percentage),
+    method: features.method_used === "advanced" ? "advanced" : "basic",
+    engine: features.engine === "typescript" ? "typescript" : "python",
+    brightnessDiff: Math.round(features.brightness_diff),
+    contrastDiff: Math.round(features.contrast_diff),
+    colorDiff: Math.round(features.color_diff),
+    edgeDiff: typeof features.edge_diff === "number" ? Math.round(features.edge_diff * 1000) / 1000 : undefined,
+    psnr: typeof features.psnr === "number" ? Math.round(features.psnr * 10) / 10 : undefined,
+    differences: Array.isArray(raw.differences) ? raw.differences : [],
+    heatmap: toPngDataUrl(raw.heatmap),
+  }
+}
+
+// The Python engine returns bare base64
+function toPngDataUrl(heatmap: unknown) {
+  if (typeof heatmap !== "string" || heatmap.length === 0) return undefined
+  return heatmap.startsWith("data:") ? heatmap : `data:image/png;base64,${heatmap}`
+}
+
+export const pixelMetricName = (comparison: PixelComparison) =>
+  comparison.method === "advanced" ? "SSIM" : "Pixel similarity"
+
+// Null when the pixel score falls in the range that agrees with the model's rating band
+export function findPixelDisagreement(angle: AngleAnalysis, comparison: PixelComparison): string | null {
+  const [lowest, highest] = AGREEING_PIXEL_RANGES[comparison.method][angle.matchQuality]
+  if (comparison.similarityPercentage >= lowest && comparison.similarityPercentage <= highest) return null
+  const metric = `${pixelMetricName(comparison)} is ${comparison.similarityPercentage}%`
+  return comparison.similarityPercentage < lowest
+    ? `Gemini rates this angle ${angle.matchQuality} (${angle.similarityPercentage}%) but the ${metric} - check for changes the model missed`
+    : `Gemini rates this angle ${angle.matchQuality} (${angle.similarityPercentage}%) but the ${metric} - the images may differ only in lighting or framing`
+}
+
+async function fileToBase64(file: File) {
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  let binary = ""
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000))
+  }
+  return btoa(binary)
+}
+
+interface PixelComparisonOptions {
+  signal?: AbortSignal
+  timeoutMs?: number // per angle, the first one including the Python runtime start-up
+  onProgress?: (message: string) => void
+  onComparison?: (angleIndex: number, comparison: PixelComparison | null) => void // as each angle finishes
+  engine?: PixelEngine
+}
+
+// One comparison per analysed angle, in order; an angle whose comparison failed gets null.
+// Angles run one after another, as both engines' workers take one job at a time. Throws a
+// PythonRuntimeError when the Python runtime can't be loaded, see withPixelComparisonError.
+export async function compareAnglePixels(
+  packagingImages: File[],
+  deliveryImages: File[],
+  angles: AngleAnalysis[],
+  { signal, timeoutMs, onProgress, onComparison, engine = PIXEL_ENGINE }: PixelComparisonOptions = {},
+): Promise<Array<PixelComparison | null>> {
+  const compareImages = ENGINES[engine]
+
+  const compareAngle = async (angle: AngleAnalysis) => {
+    const packagingImage = packagingImages[angle.packagingImageIndex]
+    const deliveryImage = deliveryImages[angle.deliveryImageIndex]
+    if (!packagingImage || !deliveryImage) return null
+
+    try {
+      onProgress?.(`Cross-checking ${angle.angle} pixel by pixel...`)
+      const [packagingBase64, deliveryBase64] = await Promise.all([
+        fileToBase64(packagingImage),
+        fileToBase64(deliveryImage),
+      ])
+      const raw = await compareImages(packagingBase64, deliveryBase64, { signal, timeoutMs, onProgress })
+      return toPixelComparison(raw)
+    } catch (error) {
+      if (signal?.aborted) throw signal.reason
+      if (error instanceof PythonRuntimeError) throw error
+      console.warn(`Pixel comparison failed for ${angle.angle}:`, error)
+      return null
+    }
+  }
+
+  const comparisons: Array<PixelComparison | null> = []
+  for (const [index, angle] of angles.entries()) {
+    comparisons.push(await compareAngle(angle))
+    onComparison?.(index, comparisons[index])
+  }
+  return comparisons
+}
+
+// Adds the comparisons to their angles and sums them up in technicalAnalysis; angles without
+// one yet are left as they are
+export function withPixelComparisons(
+  result: MultiImageAnalysisResult,
+  comparisons: Array<PixelComparison | null>,
+): MultiImageAnalysisResult {
+  const angleAnalysis = result.angleAnalysis.map((angle, index) => {
+    const comparison = comparisons[index]
+    if (!comparison) return angle
+    return {
+      ...angle,
+      pixelComparison: comparison,
+      pixelDisagreement: findPixelDisagreement(angle, comparison) ?? undefined,
+    }
+  })
+
+  const compared = angleAnalysis.filter((angle) => angle.pixelComparison)
+  if (compared.length === 0) return result
+  return {
+    ...result,
+    angleAnalysis,
+    technicalAnalysis: {
+      ...result.technicalAnalysis,
+      pixel_comparison: {
+        method: compared[0].pixelComparison!.method,
+        engine: compared[0].pixelComparison!.engine,
+        angles_compared: compared.length,
+        mean_similarity: Math.round(
+          compared.reduce((sum, angle) => sum + angle.pixelComparison!.similarityPercentage, 0) / compared.length,
+        ),
+        angles: compared.map((angle) => ({
+          angle: angle.angle,
+          similarity: angle.pixelComparison!.similarityPercentage,
+          brightness_diff: angle.pixelComparison!.brightnessDiff,
+          contrast_diff: angle.pixelComparison!.contrastDiff,
+          color_diff: angle.pixelComparison!.colorDiff,
+          edge_diff: angle.pixelComparison!.edgeDiff,
+          psnr: angle.pixelComparison!.psnr,
+        })),
+        disagreements: compared.filter((angle) => angle.pixelDisagreement).length,
+      },
+    },
+  }
+}
+
+// Records why there is no pixel check, so the results say so instead of silently omitting it
+export function withPixelComparisonError(result: MultiImageAnalysisResult, message: string): MultiImageAnalysisResult {
+  return { ...result, technicalAnalysis: { ...result.technicalAnalysis, pixel_comparison: { error: message } } }
+}
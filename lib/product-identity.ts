@@ -0,0 +1,71 @@
+// Deterministic comparison of the products identified independently on each side
+export interface ProductIdentity {
+  productName: string
+  brand: string
+  model: string
+  variant: string
+  category: string
+}
+
+export interface IdentityComparison {
+  match: boolean
+  mismatches: string[] // human-readable, e.g. `Model: "iPhone 15 Pro" vs "iPhone 13"`
+  uncertain: string[] // one reading contains the other, e.g. `Model: "Galaxy S23 Ultra" vs "Galaxy S23 Ultra 5G"`
+}
+
+const UNKNOWN_VALUES = new Set(["", "unknown", "n/a", "na", "none", "not visible", "unspecified", "unclear"])
+
+function isKnown(value: string) {
+  return !UNKNOWN_VALUES.has(value.trim().toLowerCase())
+}
+
+// Order-insensitive tokens: "Black 256 GB" and "256GB black" both become 256, black, gb
+function tokenize(value: string, ignoredWords: string[] = []) {
+  const ignored = new Set(ignoredWords.map((word) => word.toLowerCase()))
+  return new Set(
+    value
+      .toLowerCase()
+      .replace(/(\d)([a-z])/g, "$1 $2")
+      .replace(/([a-z])(\d)/g, "$1 $2")
+      .split(/[^a-z0-9]+/)
+      .filter((token) => token && !ignored.has(token)),
+  )
+}
+
+// The values are free text read by the model, so one naming more of the product ("Galaxy S23
+// Ultra" vs "Galaxy S23 Ultra 5G") only makes the match uncertain; disjoint details differ
+function compareValues(packed: Set<string>, delivered: Set<string>): "same" | "contained" | "different" {
+  const [shorter, longer] = packed.size <= delivered.size ? [packed, delivered] : [delivered, packed]
+  if (![...shorter].every((token) => longer.has(token))) return "different"
+  return shorter.size === longer.size ? "same" : "contained"
+}
+
+export function compareProductIdentities(packaging: ProductIdentity, delivery: ProductIdentity): IdentityComparison {
+  const mismatches: string[] = []
+  const uncertain: string[] = []
+  const brandWords = [...packaging.brand.split(/\s+/), ...delivery.brand.split(/\s+/)]
+
+  const fields: Array<{ label: string; key: keyof ProductIdentity; ignoredWords?: string[] }> = [
+    { label: "Brand", key: "brand" },
+    // Models are often reported with the brand prefixed ("Apple iPhone 15"), so brand words are ignored
+    { label: "Model", key: "model", ignoredWords: brandWords },
+    { label: "Variant", key: "variant" },
+  ]
+
+  for (const { label, key, ignoredWords } of fields) {
+    const packed = packaging[key]
+    const delivered = delivery[key]
+    // An attribute that isn't visible on one side can't prove a mismatch
+    if (!isKnown(packed) || !isKnown(delivered)) continue
+    const comparison = compareValues(tokenize(packed, ignoredWords), tokenize(delivered, ignoredWords))
+    if (comparison === "different") mismatches.push(`${label}: "${packed}" vs "${delivered}"`)
+    else if (comparison === "contained") uncertain.push(`${label}: "${packed}" vs "${delivered}"`)
+  }
+
+  return { match: mismatches.length === 0, mismatches, uncertain }
+}
+
+export function formatProductIdentity({ productName, brand, model, variant }: ProductIdentity) {
+  const details = [brand, model, variant].filter(isKnown).join(" / ")
+  return details ? `${productName} (${details})` : productName
+}
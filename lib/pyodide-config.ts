@@ -0,0 +1,20 @@
+// Where the Pyodide runtime for the pixel comparison comes from. The release in
+// pyodide-assets.json is pinned with an SRI hash per runtime file, written by
+// `npm run pyodide:pin -- <version>`; the wheels are covered by the sha256 sums in the pinned
+// repodata.json, which Pyodide checks on install.
+//
+// By default the files are served from this origin under /pyodide/v<version>/ - run
+// `npm run pyodide:fetch` to download and verify them into public/. Set
+// NEXT_PUBLIC_PYODIDE_BASE_URL to serve the same files from another host or path instead.
+import assets from "@/lib/pyodide-assets.json"
+
+export const PYODIDE_VERSION = assets.version
+export const PYODIDE_PACKAGES: string[] = assets.packages
+export const PYODIDE_FILE_INTEGRITY: Record<string, string> = assets.files
+
+// An absolute URL ending in "/"; relative settings resolve against the page or worker location
+export function getPyodideIndexUrl(location: string) {
+  const configured = process.env.NEXT_PUBLIC_PYODIDE_BASE_URL || `/pyodide/v${PYODIDE_VERSION}/`
+  const url = new URL(configured, location).href
+  return url.endsWith("/") ? url : `${url}/`
+}
@@ -0,0 +1,446 @@
+// Dedicated worker that owns the Pyodide runtime, so loading numpy/pillow/scikit-image and
+// running SSIM never block the page. Jobs run one at a time in arrival order; see
+// worker-protocol for the messages and python-image-processor for the client.
+import { serveJobs, type JobWorkerScope } from "@/lib/job-worker"
+import { PYODIDE_FILE_INTEGRITY, PYODIDE_VERSION, getPyodideIndexUrl } from "@/lib/pyodide-config"
+import type { PythonWorkerJob } from "@/lib/worker-protocol"
+
+// The part of the Pyodide API this worker uses; the runtime is loaded at run time, not imported
+interface PyodideInterface {
+  runPython(code: string): unknown
+  runPythonAsync(code: string): Promise<unknown>
+  loadPackage(names: string[]): Promise<unknown>
+  globals: { set(name: string, value: unknown): void; delete(name: string): void }
+}
+
+// The worker global; typed by hand since the project compiles against the DOM lib
+const worker = self as unknown as JobWorkerScope<PythonWorkerJob> & {
+  location: { href: string }
+  importScripts(...urls: string[]): void
+  loadPyodide?: (options: object) => Promise<PyodideInterface>
+  _createPyodideModule?: (module: object) => Promise<unknown> // defined by pyodide.asm.js
+}
+
+const IMAGE_PROCESSING_SOURCE = `
+import numpy as np
+from PIL import Image, ImageEnhance, ImageFilter
+import io
+import base64
+import json
+
+# Try to import scikit-image, use fallback if not available
+try:
+    from skimage.metrics import structural_similarity as ssim
+    from skimage import color, feature
+    SCIKIT_AVAILABLE = True
+    print("scikit-image available")
+except ImportError:
+    SCIKIT_AVAILABLE = False
+    print("scikit-image not available, using basic comparison")
+
+def base64_to_image(base64_string):
+    """Convert base64 string to PIL Image"""
+    try:
+        image_data = base64.b64decode(base64_string)
+        return Image.open(io.BytesIO(image_data))
+    except Exception as e:
+        print(f"Error converting base64 to image: {e}")
+        raise
+
+def image_to_base64(image):
+    """Convert PIL Image to base64 string"""
+    try:
+        buffer = io.BytesIO()
+        image.save(buffer, format='JPEG', quality=85)
+        return base64.b64encode(buffer.getvalue()).decode()
+    except Exception as e:
+        print(f"Error converting image to base64: {e}")
+        raise
+
+def preprocess_image(base64_string):
+    """Preprocess image for better analysis"""
+    try:
+        image = base64_to_image(base64_string)
+        
+        # Convert to RGB if needed
+        if image.mode != 'RGB':
+            image = image.convert('RGB')
+        
+        # Enhance contrast and sharpness
+        enhancer = ImageEnhance.Contrast(image)
+        image = enhancer.enhance(1.2)
+        
+        enhancer = ImageEnhance.Sharpness(image)
+        image = enhancer.enhance(1.1)
+        
+        # Resize to standard size for comparison
+        image = image.resize((512, 512), Image.Resampling.LANCZOS)
+        
+        return image_to_base64(image)
+    except Exception as e:
+        print(f"Error preprocessing image: {e}")
+        return base64_string  # Return original if preprocessing fails
+
+def calculate_similarity_basic(base64_img1, base64_img2):
+    """Basic similarity calculation using PIL only"""
+    try:
+        img1 = base64_to_image(base64_img1)
+        img2 = base64_to_image(base64_img2)
+        
+        # Convert to same size
+        size = (256, 256)
+        img1 = img1.resize(size).convert('RGB')
+        img2 = img2.resize(size).convert('RGB')
+        
+        # Convert to numpy arrays
+        arr1 = np.array(img1)
+        arr2 = np.array(img2)
+        
+        # Calculate mean squared error (as floats, uint8 subtraction wraps around)
+        mse = np.mean((arr1.astype(np.float64) - arr2.astype(np.float64)) ** 2)
+        
+        # Convert MSE to similarity percentage (inverse relationship)
+        max_mse = 255 ** 2  # Maximum possible MSE for 8-bit images
+        similarity = max(0, (1 - mse / max_mse) * 100)
+        
+        return float(similarity)
+    except Exception as e:
+        print(f"Error in basic similarity calculation: {e}")
+        return 75.0  # Default similarity
+
+def calculate_similarity_advanced(base64_img1, base64_img2):
+    """Advanced similarity calculation using scikit-image"""
+    try:
+        img1 = base64_to_image(base64_img1)
+        img2 = base64_to_image(base64_img2)
+        
+        # Convert to grayscale
+        img1_gray = np.array(img1.convert('L'))
+        img2_gray = np.array(img2.convert('L'))
+        
+        # Resize to same dimensions
+        if img1_gray.shape != img2_gray.shape:
+            img2_gray = np.array(Image.fromarray(img2_gray).resize(img1_gray.shape[::-1]))
+        
+        # Calculate SSIM
+        similarity_score = ssim(img1_gray, img2_gray)
+        
+        return float(similarity_score * 100)  # Convert to percentage
+    except Exception as e:
+        print(f"Error in advanced similarity calculation: {e}")
+        return calculate_similarity_basic(base64_img1, base64_img2)
+
+def calculate_similarity(base64_img1, base64_img2):
+    """Calculate similarity using best available method"""
+    if SCIKIT_AVAILABLE:
+        return calculate_similarity_advanced(base64_img1, base64_img2)
+    else:
+        return calculate_similarity_basic(base64_img1, base64_img2)
+
+def detect_features_basic(base64_string):
+    """Basic feature detection using PIL only"""
+    try:
+        image = base64_to_image(base64_string)
+        img_array = np.array(image.convert('RGB'))
+        
+        # Calculate basic statistics
+        brightness = float(np.mean(img_array))
+        contrast = float(np.std(img_array))
+        
+        # Simple color analysis
+        r_mean = float(np.mean(img_array[:,:,0]))
+        g_mean = float(np.mean(img_array[:,:,1]))
+        b_mean = float(np.mean(img_array[:,:,2]))
+        
+        dominant_colors = []
+        if r_mean > g_mean and r_mean > b_mean:
+            dominant_colors.append("red_dominant")
+        elif g_mean > r_mean and g_mean > b_mean:
+            dominant_colors.append("green_dominant")
+        else:
+            dominant_colors.append("blue_dominant")
+        
+        return {
+            "brightness": brightness,
+            "contrast": contrast,
+            "dominant_colors": dominant_colors,
+            "r_mean": r_mean,
+            "g_mean": g_mean,
+            "b_mean": b_mean
+        }
+    except Exception as e:
+        print(f"Error in basic feature detection: {e}")
+        return {
+            "brightness": 128.0,
+            "contrast": 50.0,
+            "dominant_colors": [],
+            "r_mean": 128.0,
+            "g_mean": 128.0,
+            "b_mean": 128.0
+        }
+
+def detect_features_advanced(base64_string):
+    """Advanced feature detection using scikit-image"""
+    try:
+        image = base64_to_image(base64_string)
+        img_array = np.array(image.convert('L'))
+        
+        # Detect edges
+        edges = feature.canny(img_array)
+        edge_density = float(np.sum(edges) / edges.size)
+        
+        # Get basic features
+        basic_features = detect_features_basic(base64_string)
+        basic_features["edge_density"] = edge_density
+        
+        return basic_features
+    except Exception as e:
+        print(f"Error in advanced feature detection: {e}")
+        return detect_features_basic(base64_string)
+
+def detect_features(base64_string):
+    """Detect features using best available method"""
+    if SCIKIT_AVAILABLE:
+        return detect_features_advanced(base64_string)
+    else:
+        return detect_features_basic(base64_string)
+
+HEAT_STOPS = np.array([[49, 54, 149], [69, 170, 120], [250, 220, 60], [215, 40, 40]], dtype=np.float64)
+
+def heat_to_rgba(heat, covered):
+    """Colour map matching heatColor in image-metrics.ts; opacity rises with the difference"""
+    position = np.clip(heat, 0, 1) * (len(HEAT_STOPS) - 1)
+    index = np.minimum(np.floor(position).astype(int), len(HEAT_STOPS) - 2)
+    t = (position - index)[..., None]
+    rgb = HEAT_STOPS[index] + t * (HEAT_STOPS[index + 1] - HEAT_STOPS[index])
+    alpha = np.where(covered, np.minimum(1, heat * 2) * 255, 0)
+    return np.dstack([rgb, alpha]).round().astype(np.uint8)
+
+def difference_heatmap(base64_img1, base64_img2):
+    """Where the images differ, as a PNG overlay for the second one: the first is aligned onto it
+    (scikit-image only), then each pixel takes the larger of 1 - local SSIM and the local mean
+    absolute difference"""
+    size = (512, 512)
+    gray1 = np.array(base64_to_image(base64_img1).convert('L').resize(size), dtype=np.float64)
+    gray2 = np.array(base64_to_image(base64_img2).convert('L').resize(size), dtype=np.float64)
+    covered = np.ones(gray2.shape, dtype=bool)
+
+    if SCIKIT_AVAILABLE:
+        from skimage.registration import phase_cross_correlation
+        shift, _, _ = phase_cross_correlation(gray2, gray1)
+        dy, dx = (int(round(value)) for value in shift)
+        if max(abs(dx), abs(dy)) <= 0.1 * size[0]:
+            aligned = np.roll(gray1, (dy, dx), axis=(0, 1))
+            covered[:max(dy, 0), :] = False
+            covered[gray2.shape[0] + min(dy, 0):, :] = False
+            covered[:, :max(dx, 0)] = False
+            covered[:, gray2.shape[1] + min(dx, 0):] = False
+            gray1 = np.where(covered, aligned, gray2)  # uncovered pixels read as identical
+
+    absolute = Image.fromarray(np.abs(gray1 - gray2).astype(np.uint8))
+    heat = np.array(absolute.filter(ImageFilter.BoxBlur(3)), dtype=np.float64) / 255
+    if SCIKIT_AVAILABLE:
+        _, ssim_map = ssim(gray1, gray2, data_range=255, win_size=7, full=True)
+        heat = np.maximum(heat, np.clip(1 - ssim_map, 0, 1))
+
+    buffer = io.BytesIO()
+    Image.fromarray(heat_to_rgba(heat, covered), 'RGBA').save(buffer, format='PNG')
+    return base64.b64encode(buffer.getvalue()).decode()
+
+def compare_images_advanced(base64_img1, base64_img2):
+    """Advanced image comparison using available methods"""
+    try:
+        # Preprocess images
+        processed_img1 = preprocess_image(base64_img1)
+        processed_img2 = preprocess_image(base64_img2)
+        
+        # Calculate similarity
+        similarity = calculate_similarity(processed_img1, processed_img2)
+        
+        # Extract features
+        features1 = detect_features(base64_img1)
+        features2 = detect_features(base64_img2)
+        
+        # Compare features
+        brightness_diff = abs(features1["brightness"] - features2["brightness"])
+        contrast_diff = abs(features1["contrast"] - features2["contrast"])
+        
+        # Generate differences list
+        differences = []
+        if brightness_diff > 20:
+            differences.append(f"Brightness difference: {brightness_diff:.1f}")
+        if contrast_diff > 15:
+            differences.append(f"Contrast difference: {contrast_diff:.1f}")
+        
+        # Color comparison
+        r_diff = abs(features1.get("r_mean", 0) - features2.get("r_mean", 0))
+        g_diff = abs(features1.get("g_mean", 0) - features2.get("g_mean", 0))
+        b_diff = abs(features1.get("b_mean", 0) - features2.get("b_mean", 0))
+        
+        if max(r_diff, g_diff, b_diff) > 30:
+            differences.append("Significant color differences detected")
+        
+        # Edge comparison (if available)
+        edge_diff = None
+        if "edge_density" in features1 and "edge_density" in features2:
+            edge_diff = abs(features1["edge_density"] - features2["edge_density"])
+            if edge_diff > 0.1:
+                differences.append(f"Edge detail difference: {edge_diff:.3f}")
+        
+        # The heatmap is extra; its failure doesn't fail the comparison
+        heatmap = None
+        try:
+            heatmap = difference_heatmap(base64_img1, base64_img2)
+        except Exception as e:
+            print(f"Error computing the difference heatmap: {e}")
+        
+        return {
+            "similarity_percentage": similarity,
+            "differences": differences,
+            "heatmap": heatmap,
+            "features_comparison": {
+                "brightness_diff": brightness_diff,
+                "contrast_diff": contrast_diff,
+                "color_diff": max(r_diff, g_diff, b_diff),
+                "edge_diff": edge_diff,
+                "method_used": "advanced" if SCIKIT_AVAILABLE else "basic"
+            }
+        }
+    except Exception as e:
+        print(f"Error in advanced comparison: {e}")
+        return {
+            "similarity_percentage": 50.0,
+            "differences": ["Error in image processing"],
+            "features_comparison": {"error": str(e)}
+        }
+
+print("Python image processing functions loaded successfully")
+`
+
+// Thrown when the runtime itself can't be loaded, as opposed to one comparison failing
+class RuntimeUnavailableError extends Error {}
+
+let pyodideLoading: Promise<PyodideInterface> | null = null
+let createPyodideModule: ((module: object) => Promise<unknown>) | undefined
+
+const toBase64 = (bytes: ArrayBuffer) => {
+  let binary = ""
+  new Uint8Array(bytes).forEach((byte) => (binary += String.fromCharCode(byte)))
+  return btoa(binary)
+}
+
+// Downloads a runtime file and checks it against its pinned SRI hash before it's used
+async function fetchVerified(indexURL: string, file: string) {
+  let response: Response
+  try {
+    response = await fetch(`${indexURL}${file}`)
+  } catch {
+    throw new RuntimeUnavailableError(`Could not reach the Python runtime at ${indexURL}`)
+  }
+  if (!response.ok) {
+    throw new RuntimeUnavailableError(
+      `The Python runtime is missing ${file} at ${indexURL} (${response.status}) - run npm run pyodide:fetch or check NEXT_PUBLIC_PYODIDE_BASE_URL`,
+    )
+  }
+  const bytes = await response.arrayBuffer()
+  const digest = `sha384-${toBase64(await crypto.subtle.digest("SHA-384", bytes))}`
+  if (digest !== PYODIDE_FILE_INTEGRITY[file]) {
+    throw new RuntimeUnavailableError(`${file} at ${indexURL} is not the pinned Pyodide ${PYODIDE_VERSION} file`)
+  }
+  return bytes
+}
+
+const toObjectUrl = (bytes: ArrayBuffer, type: string) => URL.createObjectURL(new Blob([bytes], { type }))
+
+async function loadPyodideRuntime(progress: (message: string) => void) {
+  const indexURL = getPyodideIndexUrl(worker.location.href)
+  progress(`Loading Pyodide ${PYODIDE_VERSION}...`)
+
+  // Every runtime file runs from its verified copy, each downloaded once; wheels are checked by
+  // Pyodide against the verified lock file
+  const [loader, lockFile, stdLib, asmJs, wasmBinary] = await Promise.all([
+    fetchVerified(indexURL, "pyodide.js"),
+    fetchVerified(indexURL, "repodata.json"),
+    fetchVerified(indexURL, "python_stdlib.zip"),
+    fetchVerified(indexURL, "pyodide.asm.js"),
+    fetchVerified(indexURL, "pyodide.asm.wasm"),
+  ])
+  const lockFileURL = toObjectUrl(lockFile, "application/json")
+  const stdLibURL = toObjectUrl(stdLib, "application/zip")
+
+  if (!worker.loadPyodide) worker.importScripts(toObjectUrl(loader, "text/javascript"))
+  // The loader only fetches pyodide.asm.js when _createPyodideModule isn't defined yet, and the
+  // module only fetches the wasm binary when it isn't given one
+  if (!createPyodideModule) {
+    worker.importScripts(toObjectUrl(asmJs, "text/javascript"))
+    createPyodideModule = worker._createPyodideModule!
+  }
+  worker._createPyodideModule = (module) => createPyodideModule!(Object.assign(module, { wasmBinary }))
+
+  let pyodide: PyodideInterface
+  try {
+    pyodide = await worker.loadPyodide!({
+      indexURL,
+      lockFileURL,
+      stdLibURL,
+      stdout: (text: string) => console.log("Pyodide stdout:", text),
+      stderr: (text: string) => console.warn("Pyodide stderr:", text),
+    })
+  } catch (error) {
+    console.error("Failed to start Pyodide:", error)
+    throw new RuntimeUnavailableError(`The Python runtime failed to start: ${error}`)
+  }
+
+  progress("Installing Python packages...")
+  try {
+    await pyodide.loadPackage(["numpy", "pillow"])
+  } catch (packageError) {
+    console.error("Package installation failed:", packageError)
+    throw new RuntimeUnavailableError("Failed to install required Python packages")
+  }
+  // SSIM needs scikit-image; without it the comparison falls back to MSE
+  try {
+    await pyodide.loadPackage(["scikit-image"])
+  } catch (skimageError) {
+    console.warn("scikit-image installation failed, using basic comparison:", skimageError)
+  }
+
+  pyodide.runPython(IMAGE_PROCESSING_SOURCE)
+  progress("Python image processing ready")
+  return pyodide
+}
+
+// A failed load is retried by the next job rather than cached
+function getPyodide(progress: (message: string) => void) {
+  pyodideLoading ??= loadPyodideRuntime(progress).catch((error) => {
+    pyodideLoading = null
+    throw error
+  })
+  return pyodideLoading
+}
+
+function callPython(pyodide: PyodideInterface, code: string, inputs: Record<string, string>) {
+  for (const [name, value] of Object.entries(inputs)) pyodide.globals.set(name, value)
+  try {
+    return JSON.parse(pyodide.runPython(`import json\njson.dumps(${code})`) as string)
+  } finally {
+    for (const name of Object.keys(inputs)) pyodide.globals.delete(name)
+  }
+}
+
+async function runJob(job: PythonWorkerJob, progress: (message: string) => void) {
+  const pyodide = await getPyodide(progress)
+  switch (job.type) {
+    case "init":
+      return null
+    case "compare":
+      return callPython(pyodide, "compare_images_advanced(img1_base64, img2_base64)", {
+        img1_base64: job.packaging,
+        img2_base64: job.delivery,
+      })
+    case "features":
+      return callPython(pyodide, "detect_features(image_base64)", { image_base64: job.image })
+  }
+}
+
+serveJobs(worker, runJob, (error) => ({ runtimeUnavailable: error instanceof RuntimeUnavailableError }))
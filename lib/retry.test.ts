@@ -0,0 +1,103 @@
+import { describe, expect, it, vi } from "vitest"
+import {
+  DEFAULT_RETRY_POLICY,
+  RetryableError,
+  getBackoffDelay,
+  parseRetryAfter,
+  resolveRetryPolicy,
+  withRetry,
+  type RetryPolicy,
+} from "@/lib/retry"
+
+const FAST_POLICY: RetryPolicy = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 4, maxRetryAfterMs: 50, jitter: 0 }
+
+describe("withRetry", () => {
+  it("repeats retryable failures until the operation succeeds", async () => {
+    const onRetry = vi.fn()
+    const operation = vi
+      .fn<(attempt: number) => Promise<string>>()
+      .mockRejectedValueOnce(new RetryableError("rate limited"))
+      .mockResolvedValueOnce("done")
+
+    await expect(withRetry(operation, FAST_POLICY, { onRetry })).resolves.toBe("done")
+    expect(operation).toHaveBeenCalledTimes(2)
+    expect(onRetry).toHaveBeenCalledWith({ attempt: 2, maxAttempts: 3, delayMs: 1, reason: "rate limited" })
+  })
+
+  it("throws other errors without retrying", async () => {
+    const operation = vi.fn().mockRejectedValue(new Error("bad request"))
+    await expect(withRetry(operation, FAST_POLICY)).rejects.toThrow("bad request")
+    expect(operation).toHaveBeenCalledTimes(1)
+  })
+
+  it("gives up after the last attempt", async () => {
+    const operation = vi.fn().mockRejectedValue(new RetryableError("overloaded"))
+    await expect(withRetry(operation, FAST_POLICY)).rejects.toThrow("overloaded")
+    expect(operation).toHaveBeenCalledTimes(3)
+  })
+
+  it("waits for Retry-After and fails fast when it is too long", async () => {
+    const onRetry = vi.fn()
+    const waited = vi
+      .fn()
+      .mockRejectedValueOnce(new RetryableError("slow down", 5))
+      .mockResolvedValueOnce("done")
+    await withRetry(waited, FAST_POLICY, { onRetry })
+    expect(onRetry.mock.calls[0][0].delayMs).toBe(5)
+
+    const tooLong = vi.fn().mockRejectedValue(new RetryableError("come back tomorrow", 60_000))
+    await expect(withRetry(tooLong, FAST_POLICY)).rejects.toThrow("come back tomorrow")
+    expect(tooLong).toHaveBeenCalledTimes(1)
+  })
+
+  it("stops when aborted during the backoff", async () => {
+    const controller = new AbortController()
+    const operation = vi.fn().mockRejectedValue(new RetryableError("overloaded"))
+    const run = withRetry(operation, { ...FAST_POLICY, baseDelayMs: 10_000, maxDelayMs: 10_000 }, {
+      signal: controller.signal,
+      onRetry: () => controller.abort(new Error("cancelled")),
+    })
+    await expect(run).rejects.toThrow("cancelled")
+    expect(operation).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe("getBackoffDelay", () => {
+  it("doubles from the base delay up to the cap", () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, jitter: 0 }
+    expect([2, 3, 4, 5, 6, 7].map((attempt) => getBackoffDelay(attempt, policy))).toEqual([
+      1000, 2000, 4000, 8000, 16000, 16000,
+    ])
+  })
+
+  it("takes at most the jitter fraction off", () => {
+    for (let i = 0; i < 50; i++) {
+      const delay = getBackoffDelay(3, DEFAULT_RETRY_POLICY)
+      expect(delay).toBeGreaterThanOrEqual(1400)
+      expect(delay).toBeLessThanOrEqual(2000)
+    }
+  })
+})
+
+describe("parseRetryAfter", () => {
+  it("reads delta-seconds and HTTP dates", () => {
+    const now = Date.parse("2025-01-01T00:00:00Z")
+    expect(parseRetryAfter("3", now)).toBe(3000)
+    expect(parseRetryAfter("Wed, 01 Jan 2025 00:00:10 GMT", now)).toBe(10_000)
+    expect(parseRetryAfter("Tue, 31 Dec 2024 23:59:00 GMT", now)).toBe(0)
+  })
+
+  it("ignores missing or unreadable values", () => {
+    expect(parseRetryAfter(null)).toBeUndefined()
+    expect(parseRetryAfter("soon")).toBeUndefined()
+  })
+})
+
+describe("resolveRetryPolicy", () => {
+  it("keeps the defaults for unset overrides", () => {
+    expect(resolveRetryPolicy({ maxAttempts: 2, baseDelayMs: undefined })).toEqual({
+      ...DEFAULT_RETRY_POLICY,
+      maxAttempts: 2,
+    })
+  })
+})
@@ -0,0 +1,83 @@
+import { abortableSleep } from "@/lib/abort"
+
+// Exponential backoff with jitter for transient upstream failures
+export interface RetryPolicy {
+  maxAttempts: number // total attempts, including the first
+  baseDelayMs: number // delay before the second attempt, doubled on each retry
+  maxDelayMs: number // cap for computed backoff delays
+  maxRetryAfterMs: number // a Retry-After longer than this fails fast instead of waiting
+  jitter: number // 0-1, fraction of each delay that is randomized
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 16000,
+  maxRetryAfterMs: 60000,
+  jitter: 0.3,
+}
+
+// Unset overrides (e.g. from missing env vars) keep the default
+export function resolveRetryPolicy(overrides: Partial<RetryPolicy> = {}): RetryPolicy {
+  const defined = Object.entries(overrides).filter(([, value]) => value !== undefined)
+  return { ...DEFAULT_RETRY_POLICY, ...Object.fromEntries(defined) }
+}
+
+export interface RetryAttempt {
+  attempt: number // the attempt about to be made, starting at 2
+  maxAttempts: number
+  delayMs: number
+  reason: string
+}
+
+// Thrown by operations for failures that are safe to repeat (rate limits, overloaded or unreachable upstream)
+export class RetryableError extends Error {
+  readonly retryAfterMs?: number
+
+  constructor(message: string, retryAfterMs?: number) {
+    super(message)
+    this.name = "RetryableError"
+    this.retryAfterMs = retryAfterMs
+  }
+}
+
+// Retry-After is either delta-seconds or an HTTP date
+export function parseRetryAfter(header: string | null, now = Date.now()): number | undefined {
+  if (!header) return undefined
+
+  const seconds = Number(header)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+
+  const date = Date.parse(header)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now)
+}
+
+export function getBackoffDelay(attempt: number, policy: RetryPolicy): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 2))
+  return Math.round(exponential * (1 - policy.jitter * Math.random()))
+}
+
+interface RetryOptions {
+  onRetry?: (attempt: RetryAttempt) => void
+  signal?: AbortSignal // cancels the backoff wait as well as further attempts
+}
+
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  { onRetry, signal }: RetryOptions = {},
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    signal?.throwIfAborted()
+    try {
+      return await operation(attempt)
+    } catch (error) {
+      if (!(error instanceof RetryableError) || attempt >= policy.maxAttempts) throw error
+      if (error.retryAfterMs !== undefined && error.retryAfterMs > policy.maxRetryAfterMs) throw error
+
+      const delayMs = error.retryAfterMs ?? getBackoffDelay(attempt + 1, policy)
+      onRetry?.({ attempt: attempt + 1, maxAttempts: policy.maxAttempts, delayMs, reason: error.message })
+      await abortableSleep(delayMs, signal)
+    }
+  }
+}
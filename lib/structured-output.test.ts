@@ -0,0 +1,96 @@
+import { describe, expect, it, vi } from "vitest"
+import {
+  createAngleClassificationSchema,
+  createMultiAngleSchema,
+  createSideIdentificationSchema,
+} from "@/lib/analysis-schemas"
+import { hashVisionImage } from "@/lib/image-encoding"
+import { createMockVisionProvider, type MockVisionScript } from "@/lib/mock-vision-provider"
+import { generateValidated } from "@/lib/structured-output"
+import type { VisionImage, VisionRequest } from "@/lib/vision-provider"
+
+const image: VisionImage = { data: Buffer.from("packaging photo").toString("base64"), mimeType: "image/png" }
+
+const validClassification = { images: [{ image_index: 0, angle: "Front", confidence: 120 }] }
+
+async function providerWith(responses: Array<string | object>) {
+  const script: MockVisionScript = {
+    responses: { [await hashVisionImage(image)]: { angle_classification: responses } },
+  }
+  const provider = createMockVisionProvider(script)
+  return { provider, generate: vi.spyOn(provider, "generate") }
+}
+
+const request: VisionRequest = { stage: "angle_classification", prompt: "Label the angle", images: [image] }
+
+describe("generateValidated", () => {
+  it("parses a valid response, normalizing enums and clamping scores", async () => {
+    const { provider } = await providerWith([validClassification])
+    await expect(generateValidated(provider, request, createAngleClassificationSchema(1))).resolves.toEqual({
+      images: [{ image_index: 0, angle: "front", confidence: 100 }],
+    })
+  })
+
+  it("accepts JSON in a fenced block", async () => {
+    const { provider } = await providerWith(["```json\n" + JSON.stringify(validClassification) + "\n```"])
+    const result = await generateValidated(provider, request, createAngleClassificationSchema(1))
+    expect(result.images[0].angle).toBe("front")
+  })
+
+  it("asks the model once to repair an invalid response", async () => {
+    const { provider, generate } = await providerWith(["not json", validClassification])
+    const result = await generateValidated(provider, request, createAngleClassificationSchema(1))
+    expect(result.images).toHaveLength(1)
+    expect(generate).toHaveBeenCalledTimes(2)
+    const repairPrompt = generate.mock.calls[1][0].prompt
+    expect(repairPrompt).toContain("Invalid JSON")
+    expect(repairPrompt).toContain("Previous response:\nnot json")
+  })
+
+  it("fails when the repaired response is still invalid", async () => {
+    const { provider } = await providerWith([{ images: [] }])
+    await expect(generateValidated(provider, request, createAngleClassificationSchema(1))).rejects.toThrow(
+      "The angle classification response was invalid",
+    )
+  })
+})
+
+describe("response schemas", () => {
+  it("rejects an image classified twice and requires a slot with a template", () => {
+    const twice = { images: [0, 0].map((index) => ({ image_index: index, angle: "front", confidence: 90 })) }
+    expect(createAngleClassificationSchema(2).safeParse(twice).success).toBe(false)
+    expect(createAngleClassificationSchema(1, ["front"]).safeParse(validClassification).success).toBe(false)
+    const withSlot = { images: [{ ...validClassification.images[0], slot: "FRONT" }] }
+    expect(createAngleClassificationSchema(1, ["front"]).safeParse(withSlot).success).toBe(true)
+  })
+
+  it("requires the order assessment only with a manifest", () => {
+    const side = {
+      product_name: "Phone",
+      brand: "Acme",
+      model: "X1",
+      variant: "unknown",
+      category: "phone",
+      key_identifiers: [],
+      confidence_level: 80,
+    }
+    expect(createSideIdentificationSchema(false).safeParse(side).success).toBe(true)
+    expect(createSideIdentificationSchema(true).safeParse(side).success).toBe(false)
+  })
+
+  it("holds the multi-angle comparisons to the confirmed pairs", async () => {
+    const { provider } = await providerWith([])
+    const response = JSON.parse(
+      await provider.generate({ stage: "multi_angle", prompt: "", images: [image, image], packagingImageCount: 1 }),
+    )
+    expect(createMultiAngleSchema(1, 1).safeParse(response).success).toBe(true)
+    const paired = createMultiAngleSchema(1, 1, [{ packagingIndex: 0, deliveryIndex: 0 }]).safeParse(response)
+    expect(paired.success).toBe(true)
+
+    const elsewhere = createMultiAngleSchema(2, 2, [{ packagingIndex: 1, deliveryIndex: 1 }]).safeParse(response)
+    expect(elsewhere.success).toBe(false)
+    expect(elsewhere.error?.issues.map((issue) => issue.message)).toContain(
+      "Missing the comparison of packaging image 1 with delivery image 1",
+    )
+  })
+})
@@ -0,0 +1,70 @@
+import type { z } from "zod"
+import { formatStageName, type ProgressReporter } from "@/lib/analysis-progress"
+import type { VisionProvider, VisionRequest } from "@/lib/vision-provider"
+
+type ValidationOutcome<T> = { success: true; data: T } | { success: false; errors: string[] }
+
+// Structured output returns bare JSON; a fenced block is tolerated for providers without it
+function parseJsonResponse(text: string): unknown {
+  const trimmed = text.trim()
+  const fenced = trimmed.match(/^```(?:json)?\s*\n([\s\S]*?)\n?```$/)
+  return JSON.parse(fenced ? fenced[1] : trimmed)
+}
+
+function validateResponse<T extends z.ZodTypeAny>(text: string, schema: T): ValidationOutcome<z.output<T>> {
+  let json: unknown
+  try {
+    json = parseJsonResponse(text)
+  } catch (error) {
+    return { success: false, errors: [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`] }
+  }
+
+  const parsed = schema.safeParse(json)
+  if (parsed.success) return { success: true, data: parsed.data }
+
+  return {
+    success: false,
+    errors: parsed.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`),
+  }
+}
+
+// Asks the provider for JSON matching `schema`; on a validation failure the
+// prompt is re-sent once with the errors so the model can repair its answer.
+export async function generateValidated<T extends z.ZodTypeAny>(
+  provider: VisionProvider,
+  request: VisionRequest,
+  schema: T,
+  progress?: ProgressReporter,
+): Promise<z.output<T>> {
+  request = { ...request, schema }
+  const response = await provider.generate(request)
+
+  progress?.start("parsing", "Validating the model response...")
+  const first = validateResponse(response, schema)
+  if (first.success) {
+    progress?.complete("parsing", "Model response validated")
+    return first.data
+  }
+
+  console.warn(`Invalid ${request.stage} response, requesting repair:`, first.errors)
+  progress?.start(request.stage, "The model response was invalid - asking it to repair the answer...")
+
+  const repairPrompt = `${request.prompt}
+
+Your previous response could not be used because it failed validation:
+${first.errors.map((error) => `- ${error}`).join("\n")}
+
+Previous response:
+${response}
+
+Respond again with ONLY the corrected JSON object, following the requested format exactly.`
+
+  const repaired = validateResponse(await provider.generate({ ...request, prompt: repairPrompt }), schema)
+  if (repaired.success) {
+    progress?.complete("parsing", "Repaired model response validated")
+    return repaired.data
+  }
+
+  console.error(`Repaired ${request.stage} response is still invalid:`, repaired.errors)
+  throw new Error(`The ${formatStageName(request.stage)} response was invalid: ${repaired.errors.slice(0, 3).join("; ")}`)
+}
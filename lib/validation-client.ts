@@ -0,0 +1,91 @@
+// Browser-side client for /api/validate - the Gemini key never leaves the server
+import type { ProgressListener } from "@/lib/analysis-progress"
+import type { AngleClassificationResult, ImagePair } from "@/lib/angle-pairing"
+import type { LocalBarcodeScan } from "@/lib/barcode-check"
+import type { AnalysisResult } from "@/lib/gemini-vision-service"
+import type { MultiImageAnalysisResult } from "@/lib/multi-image-gemini-service"
+import type { OrderManifest } from "@/lib/order-manifest"
+import { readStreamMessages } from "@/lib/validation-stream"
+
+const VALIDATE_ENDPOINT = "/api/validate"
+const CLASSIFY_ANGLES_ENDPOINT = "/api/classify-angles"
+
+export interface ValidationRequestOptions {
+  onProgress?: ProgressListener // server-side pipeline events, including retries
+  signal?: AbortSignal // aborting also stops the analysis on the server
+}
+
+export interface MultiImageValidationOptions extends ValidationRequestOptions {
+  manifest?: OrderManifest // what was ordered, checked alongside the image comparison
+  barcodes?: LocalBarcodeScan // decoded on-device, see scanImageFile
+  pairing?: ImagePair[] // confirmed by the user; the analysis compares exactly these pairs
+}
+
+async function postValidation<TResult>(
+  formData: FormData,
+  { onProgress, signal }: ValidationRequestOptions,
+): Promise<TResult> {
+  const response = await fetch(VALIDATE_ENDPOINT, {
+    method: "POST",
+    body: formData,
+    signal,
+  })
+
+  if (!response.ok || !response.body) {
+    const body = await response.json().catch(() => null)
+    throw new Error(body?.error || `Validation request failed: ${response.status} - ${response.statusText}`)
+  }
+
+  for await (const message of readStreamMessages<TResult>(response.body)) {
+    if (message.type === "progress") onProgress?.(message.event)
+    if (message.type === "result") return message.result
+    if (message.type === "error") throw new Error(message.error)
+  }
+
+  throw new Error("Validation stream ended without a result. Please try again.")
+}
+
+export async function requestImageValidation(
+  packagingImage: File,
+  deliveryImage: File,
+  options: ValidationRequestOptions = {},
+): Promise<AnalysisResult> {
+  const formData = new FormData()
+  formData.append("mode", "single")
+  formData.append("packaging", packagingImage)
+  formData.append("delivery", deliveryImage)
+  return postValidation<AnalysisResult>(formData, options)
+}
+
+export async function requestMultiImageValidation(
+  packagingImages: File[],
+  deliveryImages: File[],
+  { manifest, barcodes, pairing, ...options }: MultiImageValidationOptions = {},
+): Promise<MultiImageAnalysisResult> {
+  const formData = new FormData()
+  formData.append("mode", "multi")
+  packagingImages.forEach((image) => formData.append("packaging", image))
+  deliveryImages.forEach((image) => formData.append("delivery", image))
+  if (manifest) formData.append("manifest", JSON.stringify(manifest))
+  if (barcodes) formData.append("barcodes", JSON.stringify(barcodes))
+  if (pairing) formData.append("pairing", JSON.stringify(pairing))
+  return postValidation<MultiImageAnalysisResult>(formData, options)
+}
+
+export async function requestAngleClassification(
+  packagingImages: File[],
+  deliveryImages: File[],
+  { signal, templateId }: Pick<ValidationRequestOptions, "signal"> & { templateId?: string } = {},
+): Promise<AngleClassificationResult> {
+  const formData = new FormData()
+  packagingImages.forEach((image) => formData.append("packaging", image))
+  deliveryImages.forEach((image) => formData.append("delivery", image))
+  if (templateId) formData.append("template", templateId)
+
+  const response = await fetch(CLASSIFY_ANGLES_ENDPOINT, { method: "POST", body: formData, signal })
+  const body = await response.json().catch(() => null)
+  if (!response.ok || !body) {
+    throw new Error(body?.error || `Angle classification failed: ${response.status} - ${response.statusText}`)
+  }
+  return body as AngleClassificationResult
+}
@@ -0,0 +1,84 @@
+// Downloadable report of a multi-angle result, for claims and audit trails outside the app
+import type { Severity } from "@/lib/analysis-schemas"
+import {
+  SEVERITIES,
+  countBySeverity,
+  filterBySeverity,
+  sortBySeverity,
+  type Difference,
+} from "@/lib/differences"
+import type { MultiImageAnalysisResult } from "@/lib/multi-image-gemini-service"
+
+export interface ReportDifference extends Difference {
+  scope: string // "overall" or the angle it was found in
+}
+
+export interface ValidationReport {
+  generatedAt: string
+  verdict: MultiImageAnalysisResult["verdict"]
+  packagingProduct: string
+  deliveryProduct: string
+  overallSimilarityPercentage: number
+  confidenceScore: number
+  severityCounts: Record<Severity, number> // over all differences, before filtering
+  severityFilter: Severity[]
+  differences: ReportDifference[] // filtered, most severe first
+  summary: string
+  recommendations: string[]
+}
+
+export function createValidationReport(
+  result: MultiImageAnalysisResult,
+  severities: readonly Severity[] = SEVERITIES,
+): ValidationReport {
+  const differences: ReportDifference[] = [
+    ...result.comprehensiveDifferences.map((difference) => ({ ...difference, scope: "overall" })),
+    ...result.angleAnalysis.flatMap((angle) =>
+      angle.differences.map((difference) => ({ ...difference, scope: angle.angle })),
+    ),
+  ]
+
+  return {
+    generatedAt: new Date().toISOString(),
+    verdict: result.verdict,
+    packagingProduct: result.packagingProduct,
+    deliveryProduct: result.deliveryProduct,
+    overallSimilarityPercentage: result.overallSimilarityPercentage,
+    confidenceScore: result.confidenceScore,
+    severityCounts: countBySeverity(differences),
+    severityFilter: SEVERITIES.filter((severity) => severities.includes(severity)),
+    differences: sortBySeverity(filterBySeverity(differences, severities)),
+    summary: result.detailedSummary.replace(/\s+/g, " ").trim(),
+    recommendations: result.recommendations,
+  }
+}
+
+const csvField = (value: string | number) => {
+  const text = String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// One row per difference; the verdict and products are repeated so rows stand alone in a spreadsheet
+export function toDifferencesCsv(report: ValidationReport) {
+  const header = ["verdict", "packaging_product", "delivery_product", "scope", "severity", "category", "description", "regions"]
+  const rows = report.differences.map((difference) => [
+    report.verdict,
+    report.packagingProduct,
+    report.deliveryProduct,
+    difference.scope,
+    difference.severity,
+    difference.category,
+    difference.description,
+    difference.regions.length,
+  ])
+  return [header, ...rows].map((row) => row.map(csvField).join(",")).join("\n")
+}
+
+export function downloadFile(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
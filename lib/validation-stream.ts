@@ -0,0 +1,41 @@
+import type { AnalysisProgressEvent } from "@/lib/analysis-progress"
+
+// Newline-delimited JSON messages streamed from /api/validate to the browser
+export type ValidationStreamMessage<TResult = unknown> =
+  | { type: "progress"; event: AnalysisProgressEvent }
+  | { type: "result"; result: TResult }
+  | { type: "error"; error: string }
+
+const encoder = new TextEncoder()
+
+export function encodeStreamMessage(message: ValidationStreamMessage) {
+  return encoder.encode(JSON.stringify(message) + "\n")
+}
+
+export async function* readStreamMessages<TResult>(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<ValidationStreamMessage<TResult>> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split("\n")
+      buffer = lines.pop() ?? ""
+
+      for (const line of lines) {
+        if (line.trim()) yield JSON.parse(line)
+      }
+    }
+
+    buffer += decoder.decode()
+    if (buffer.trim()) yield JSON.parse(buffer)
+  } finally {
+    reader.releaseLock()
+  }
+}
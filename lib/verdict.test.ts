@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest"
+import type { MatchQuality, Severity } from "@/lib/analysis-schemas"
+import { aggregateVerdict, getAngleScore, getAngleWeight, type VerdictInput } from "@/lib/verdict"
+
+const angle = (
+  name: string,
+  similarityPercentage: number,
+  matchQuality: MatchQuality,
+  severities: Severity[] = [],
+) => ({ angle: name, similarityPercentage, matchQuality, severities })
+
+const input = (overrides: Partial<VerdictInput> = {}): VerdictInput => ({
+  angles: [angle("front", 95, "good"), angle("back", 95, "good"), angle("left side", 95, "good")],
+  missingAngles: [],
+  ...overrides,
+})
+
+describe("getAngleScore", () => {
+  it("caps the similarity at the match quality's ceiling", () => {
+    expect(getAngleScore(angle("front", 98, "poor"))).toBe(50)
+    expect(getAngleScore(angle("front", 60, "excellent"))).toBe(60)
+  })
+})
+
+describe("getAngleWeight", () => {
+  it("weights identifying views over sides and close-ups", () => {
+    expect(getAngleWeight("Front")).toBe(1.5)
+    expect(getAngleWeight("label close-up")).toBe(1.5)
+    expect(getAngleWeight("top")).toBe(1)
+    expect(getAngleWeight("port detail")).toBe(0.75)
+  })
+})
+
+describe("aggregateVerdict", () => {
+  it("passes a delivery whose angles are all good", () => {
+    const result = aggregateVerdict(input())
+    expect(result.overallSimilarity).toBe(90)
+    expect(result.verdict).toBe("pass")
+  })
+
+  it("reviews a delivery whose angles are all fair", () => {
+    const angles = ["front", "back"].map((name) => angle(name, 80, "fair"))
+    expect(aggregateVerdict(input({ angles })).verdict).toBe("review")
+  })
+
+  it("weights the average by view", () => {
+    const angles = [angle("front", 100, "excellent"), angle("port detail", 50, "poor")]
+    const result = aggregateVerdict(input({ angles }))
+    expect(result.weightedSimilarity).toBe(round((100 * 1.5 + 50 * 0.75) / 2.25))
+  })
+
+  it("subtracts capped penalties for missing angles and high-severity differences", () => {
+    const result = aggregateVerdict(
+      input({
+        angles: [angle("front", 100, "excellent", ["high", "high", "high", "high", "high", "low"])],
+        missingAngles: ["back", "left", "right", "top", "bottom"],
+      }),
+    )
+    expect(result.penalties.map((penalty) => penalty.points)).toEqual([20, 40])
+    expect(result.highSeverityCount).toBe(5)
+    expect(result.overallSimilarity).toBe(40)
+    expect(result.verdict).toBe("inspect")
+  })
+
+  it("does not pass with a high-severity difference", () => {
+    const angles = [angle("front", 100, "excellent", ["high"]), angle("back", 100, "excellent")]
+    const result = aggregateVerdict(input({ angles }))
+    expect(result.overallSimilarity).toBe(90)
+    expect(result.verdict).toBe("review")
+  })
+
+  it("fails on an order or identifier mismatch whatever the score", () => {
+    expect(aggregateVerdict(input({ matchesOrder: false })).verdict).toBe("fail")
+    expect(aggregateVerdict(input({ identifiersMatch: false })).verdict).toBe("fail")
+  })
+
+  it("reviews at best when the identities are uncertain", () => {
+    expect(aggregateVerdict(input({ identityUncertain: true })).verdict).toBe("review")
+  })
+
+  it("flags a model overall similarity far from the computed one", () => {
+    expect(aggregateVerdict(input({ modelOverallSimilarity: 60 })).modelDisagreement).toBe(true)
+    expect(aggregateVerdict(input({ modelOverallSimilarity: 85 })).modelDisagreement).toBe(false)
+  })
+
+  it("keeps the model's products_match out of the verdict and flags it when it disagrees", () => {
+    const result = aggregateVerdict(input({ modelProductsMatch: false }))
+    expect(result.verdict).toBe("pass")
+    expect(result.productsSame).toBe(true)
+    expect(result.modelProductsMatch).toBe(false)
+    expect(result.modelDisagreement).toBe(true)
+    expect(aggregateVerdict(input({ modelProductsMatch: true })).modelDisagreement).toBe(false)
+  })
+
+  it("counts high-severity differences reported for the delivery as a whole", () => {
+    const result = aggregateVerdict(input({ overallSeverities: ["high", "medium"] }))
+    expect(result.highSeverityCount).toBe(1)
+    expect(result.overallSimilarity).toBe(80)
+    expect(result.verdict).toBe("review")
+  })
+
+  it("derives whether the products are the same from the identity checks and the score", () => {
+    expect(aggregateVerdict(input()).productsSame).toBe(true)
+    expect(aggregateVerdict(input({ identifiersMatch: false })).productsSame).toBe(false)
+    expect(aggregateVerdict(input({ identityUncertain: true })).productsSame).toBe(false)
+    const angles = ["front", "back"].map((name) => angle(name, 40, "poor"))
+    expect(aggregateVerdict(input({ angles })).productsSame).toBe(false)
+  })
+})
+
+function round(value: number) {
+  return Math.round(value * 10) / 10
+}
@@ -0,0 +1,147 @@
+// Deterministic overall score and verdict for a multi-angle comparison.
+//
+// 1. Each angle's score is its similarity_percentage, capped by its match_quality
+//    (a "poor" angle can't count as 95% similar): excellent 100, good 90, fair 70, poor 50.
+// 2. Angles are averaged with weights by view: front/back and label shots carry the most
+//    identifying detail (1.5), sides/top/bottom 1.0, close-up details 0.75.
+// 3. Penalties are subtracted: 5 points per missing angle (max 20) and 10 points per
+//    high-severity difference (max 40), counting those of each angle and those reported for
+//    the delivery as a whole.
+// 4. The verdict follows from the identifier and order checks and the final score: fail if
+//    the products differ from the order manifest, or if a serial number, IMEI or barcode read
+//    on both sides differs, whatever the visual score (products identified as different
+//    never get this far, see analyzeMultipleImages);
+//    pass at 90 or above with no high-severity differences, review at 70 or above, otherwise
+//    inspect. The thresholds are the good and fair ceilings, so a set of angles that are all
+//    "good" can pass and all "fair" ones reach review.
+//    Identities that only partly agree can't pass: such a delivery is reviewed at best.
+// 5. The products count as the same when the identities agree, no identifier differs and the
+//    score reaches review.
+//
+// The model's own overall_similarity and products_match are kept only as auxiliary signals:
+// they are reported, and flagged when they disagree, but don't change the verdict.
+
+import type { MatchQuality, Severity } from "@/lib/analysis-schemas"
+
+export type Verdict = "pass" | "review" | "inspect" | "fail"
+
+export interface AngleScoreInput {
+  angle: string
+  similarityPercentage: number
+  matchQuality: MatchQuality
+  severities: Severity[] // one entry per difference reported for the angle
+}
+
+export interface VerdictInput {
+  angles: AngleScoreInput[]
+  missingAngles: string[]
+  overallSeverities?: Severity[] // differences reported for the delivery as a whole
+  identityUncertain?: boolean // identities partly agree or disagree at low confidence
+  matchesOrder?: boolean // undefined when no order manifest was given
+  identifiersMatch?: boolean // undefined when no identifier was read on both sides
+  modelOverallSimilarity?: number
+  modelProductsMatch?: boolean
+}
+
+export interface VerdictPenalty {
+  reason: string
+  points: number
+}
+
+export interface AggregatedVerdict {
+  verdict: Verdict
+  overallSimilarity: number // 0-100 after penalties
+  weightedSimilarity: number // 0-100 before penalties
+  penalties: VerdictPenalty[]
+  highSeverityCount: number
+  productsSame: boolean
+  modelOverallSimilarity?: number
+  modelProductsMatch?: boolean
+  // the model's number is more than MODEL_DISAGREEMENT_POINTS away, or its products_match differs
+  modelDisagreement: boolean
+}
+
+const QUALITY_CEILING: Record<MatchQuality, number> = { excellent: 100, good: 90, fair: 70, poor: 50 }
+
+const MISSING_ANGLE_PENALTY = 5
+const MAX_MISSING_ANGLE_PENALTY = 20
+const HIGH_SEVERITY_PENALTY = 10
+const MAX_HIGH_SEVERITY_PENALTY = 40
+const MODEL_DISAGREEMENT_POINTS = 15
+
+export const PASS_THRESHOLD = QUALITY_CEILING.good
+export const REVIEW_THRESHOLD = QUALITY_CEILING.fair
+
+export function getAngleWeight(angle: string): number {
+  const name = angle.toLowerCase()
+  if (/front|back|label|screen/.test(name)) return 1.5
+  if (/detail|close/.test(name)) return 0.75
+  return 1
+}
+
+export function getAngleScore({ similarityPercentage, matchQuality }: AngleScoreInput): number {
+  return Math.min(similarityPercentage, QUALITY_CEILING[matchQuality])
+}
+
+const round = (value: number) => Math.round(value * 10) / 10
+
+export function aggregateVerdict({
+  angles,
+  missingAngles,
+  overallSeverities = [],
+  identityUncertain,
+  matchesOrder,
+  identifiersMatch,
+  modelOverallSimilarity,
+  modelProductsMatch,
+}: VerdictInput): AggregatedVerdict {
+  const totalWeight = angles.reduce((sum, angle) => sum + getAngleWeight(angle.angle), 0)
+  const weightedSimilarity =
+    totalWeight > 0
+      ? angles.reduce((sum, angle) => sum + getAngleScore(angle) * getAngleWeight(angle.angle), 0) / totalWeight
+      : 0
+
+  const penalties: VerdictPenalty[] = []
+  if (missingAngles.length > 0) {
+    penalties.push({
+      reason: `${missingAngles.length} missing angle${missingAngles.length !== 1 ? "s" : ""}: ${missingAngles.join(", ")}`,
+      points: Math.min(MAX_MISSING_ANGLE_PENALTY, missingAngles.length * MISSING_ANGLE_PENALTY),
+    })
+  }
+
+  const highSeverityCount = [...angles.flatMap((angle) => angle.severities), ...overallSeverities].filter(
+    (severity) => severity === "high",
+  ).length
+  if (highSeverityCount > 0) {
+    penalties.push({
+      reason: `${highSeverityCount} high-severity difference${highSeverityCount !== 1 ? "s" : ""}`,
+      points: Math.min(MAX_HIGH_SEVERITY_PENALTY, highSeverityCount * HIGH_SEVERITY_PENALTY),
+    })
+  }
+
+  const penaltyPoints = penalties.reduce((sum, penalty) => sum + penalty.points, 0)
+  const overallSimilarity = round(Math.max(0, weightedSimilarity - penaltyPoints))
+
+  let verdict: Verdict
+  if (matchesOrder === false || identifiersMatch === false) verdict = "fail"
+  else if (overallSimilarity >= PASS_THRESHOLD && highSeverityCount === 0 && !identityUncertain) verdict = "pass"
+  else if (overallSimilarity >= REVIEW_THRESHOLD) verdict = "review"
+  else verdict = "inspect"
+
+  const productsSame = identifiersMatch !== false && !identityUncertain && overallSimilarity >= REVIEW_THRESHOLD
+
+  return {
+    verdict,
+    overallSimilarity,
+    weightedSimilarity: round(weightedSimilarity),
+    penalties,
+    highSeverityCount,
+    productsSame,
+    modelOverallSimilarity,
+    modelProductsMatch,
+    modelDisagreement:
+      (modelOverallSimilarity !== undefined &&
+        Math.abs(modelOverallSimilarity - overallSimilarity) > MODEL_DISAGREEMENT_POINTS) ||
+      (modelProductsMatch !== undefined && modelProductsMatch !== productsSame),
+  }
+}
@@ -0,0 +1,68 @@
+import type { z } from "zod"
+import { createGeminiProvider } from "@/lib/gemini-provider"
+import { createMockVisionProvider, loadMockVisionScript } from "@/lib/mock-vision-provider"
+import type { RetryAttempt } from "@/lib/retry"
+
+export type VisionStage =
+  | "identification"
+  | "similarity"
+  | "product_identification"
+  | "identifier_extraction"
+  | "angle_classification"
+  | "multi_angle"
+
+export interface VisionImage {
+  data: string // base64 without the data: URL prefix
+  mimeType: string
+}
+
+export interface VisionRequest {
+  stage: VisionStage
+  prompt: string
+  images: VisionImage[]
+  packagingImageCount?: number // images are ordered packaging first, then delivery
+  maxOutputTokens?: number
+  schema?: z.ZodTypeAny // expected JSON shape; providers that support structured output enforce it
+  onRetry?: (attempt: VisionRetryAttempt) => void
+  signal?: AbortSignal // aborts the call, including any retry backoff
+}
+
+export interface VisionRetryAttempt extends RetryAttempt {
+  stage: VisionStage
+}
+
+// Anything that can answer a prompt about a set of images with raw model text
+export interface VisionProvider {
+  readonly name: string
+  readonly model: string
+  generate(request: VisionRequest): Promise<string>
+}
+
+let defaultProvider: VisionProvider | null = null
+
+function envNumber(name: string): number | undefined {
+  const value = Number(process.env[name])
+  return process.env[name] && Number.isFinite(value) ? value : undefined
+}
+
+// VISION_PROVIDER=mock runs the whole flow offline; MOCK_VISION_SCRIPT points at canned responses
+export function getVisionProvider(): VisionProvider {
+  if (defaultProvider) return defaultProvider
+
+  if (process.env.VISION_PROVIDER === "mock") {
+    const scriptPath = process.env.MOCK_VISION_SCRIPT
+    defaultProvider = createMockVisionProvider(scriptPath ? loadMockVisionScript(scriptPath) : {})
+  } else {
+    defaultProvider = createGeminiProvider({
+      apiKey: process.env.GEMINI_API_KEY,
+      model: process.env.GEMINI_MODEL,
+      retryPolicy: {
+        maxAttempts: envNumber("GEMINI_RETRY_MAX_ATTEMPTS"),
+        baseDelayMs: envNumber("GEMINI_RETRY_BASE_DELAY_MS"),
+        maxDelayMs: envNumber("GEMINI_RETRY_MAX_DELAY_MS"),
+      },
+    })
+  }
+
+  return defaultProvider
+}
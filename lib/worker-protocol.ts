@@ -0,0 +1,60 @@
+// Messages between the image workers (python-image.worker, image-metrics.worker,
+// barcode.worker) and their clients, see job-worker. Every request carries an id the worker echoes back; progress may
+// come any number of times before the final result or error.
+import type { DecodedBarcode } from "@/lib/barcode-decoder"
+import type { PixelComparisonOutput } from "@/lib/image-metrics"
+
+export interface WorkerJob {
+  type: string
+}
+
+export type WorkerRequest<Job extends WorkerJob> =
+  | (Job & { id: number })
+  | { type: "cancel"; id: number } // drops a queued job; a running one is stopped by terminating the worker
+
+export type WorkerErrorResponse = {
+  type: "error"
+  id: number
+  message: string
+  cancelled?: boolean
+  runtimeUnavailable?: boolean
+}
+
+export type WorkerResponse =
+  | { type: "progress"; id: number; message: string }
+  | { type: "result"; id: number; result: unknown }
+  | WorkerErrorResponse
+
+export interface PythonImageFeatures {
+  brightness: number
+  contrast: number
+  dominant_colors: string[]
+  r_mean: number
+  g_mean: number
+  b_mean: number
+  edge_density?: number // scikit-image only
+}
+
+export type PythonWorkerJob =
+  | { type: "init" }
+  | { type: "compare"; packaging: string; delivery: string } // base64 image bytes
+  | { type: "features"; image: string }
+
+// What each job resolves to
+export interface PythonWorkerResults {
+  init: null
+  compare: PixelComparisonOutput
+  features: PythonImageFeatures
+}
+
+export type ImageMetricsJob = { type: "compare"; packaging: string; delivery: string } // base64 image bytes
+
+export interface ImageMetricsResults {
+  compare: PixelComparisonOutput
+}
+
+export type BarcodeJob = { type: "scan"; image: Blob }
+
+export interface BarcodeResults {
+  scan: DecodedBarcode[]
+}
@@ -0,0 +1,57 @@
+// Downloads the pinned Pyodide release into public/pyodide/v<version>/ so the app can serve it
+// from its own origin. Every runtime file is checked against lib/pyodide-assets.json and every
+// wheel against the sha256 in the (checked) repodata.json; nothing unverified is written.
+// The pinned hashes come from pin-pyodide.
+//
+//   npm run pyodide:fetch                         from the Pyodide CDN
+//   npm run pyodide:fetch -- --from <url-or-dir>  from a mirror, or an unpacked release on disk
+import { createHash } from "node:crypto"
+import { mkdir, readFile, writeFile } from "node:fs/promises"
+import path from "node:path"
+import { fileURLToPath } from "node:url"
+import { cdnUrl, createDownloader, sourceArgument } from "./pyodide-source.mjs"
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..")
+const assets = JSON.parse(await readFile(path.join(root, "lib/pyodide-assets.json"), "utf8"))
+
+const source = sourceArgument(process.argv) ?? cdnUrl(assets.version)
+const target = path.join(root, "public/pyodide", `v${assets.version}`)
+const download = createDownloader(source)
+
+async function fetchVerified(file, algorithm, expected) {
+  const bytes = await download(file)
+  const digest = createHash(algorithm).update(bytes).digest(algorithm === "sha384" ? "base64" : "hex")
+  if (digest !== expected) throw new Error(`${file} does not match the pinned ${algorithm} hash`)
+  await writeFile(path.join(target, file), bytes)
+  console.log(`  ${file} (${(bytes.length / 1e6).toFixed(1)} MB)`)
+  return bytes
+}
+
+// The packages the worker loads, with everything they depend on
+function resolvePackages(repodata, names) {
+  const resolved = new Set()
+  const pending = [...names]
+  while (pending.length > 0) {
+    const name = pending.pop()
+    if (resolved.has(name)) continue
+    const info = repodata.packages[name]
+    if (!info) throw new Error(`Package ${name} is not in repodata.json`)
+    resolved.add(name)
+    pending.push(...info.depends)
+  }
+  return [...resolved].sort().map((name) => repodata.packages[name])
+}
+
+await mkdir(target, { recursive: true })
+console.log(`Fetching Pyodide ${assets.version} from ${source}`)
+
+let repodata
+for (const [file, integrity] of Object.entries(assets.files)) {
+  const bytes = await fetchVerified(file, "sha384", integrity.replace(/^sha384-/, ""))
+  if (file === "repodata.json") repodata = JSON.parse(bytes.toString("utf8"))
+}
+for (const info of resolvePackages(repodata, assets.packages)) {
+  await fetchVerified(info.file_name, "sha256", info.sha256)
+}
+
+console.log(`Pyodide ${assets.version} is ready in ${path.relative(root, target)}`)
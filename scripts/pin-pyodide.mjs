@@ -0,0 +1,35 @@
+// Pins a Pyodide release: downloads its runtime files and writes their sha384 SRI hashes, with
+// the version, into lib/pyodide-assets.json, which fetch-pyodide and the worker check against.
+// This is how the pinned hashes are produced; the diff is worth a look before committing, since
+// they are only as trustworthy as the source they were taken from.
+//
+//   npm run pyodide:pin -- <version>                       from the Pyodide CDN
+//   npm run pyodide:pin -- <version> --from <url-or-dir>   from a mirror, or an unpacked release on disk
+import { createHash } from "node:crypto"
+import { readFile, writeFile } from "node:fs/promises"
+import path from "node:path"
+import { fileURLToPath } from "node:url"
+import { cdnUrl, createDownloader, sourceArgument } from "./pyodide-source.mjs"
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..")
+const assetsPath = path.join(root, "lib/pyodide-assets.json")
+const assets = JSON.parse(await readFile(assetsPath, "utf8"))
+
+const version = process.argv[2]
+if (!version || version.startsWith("--")) {
+  console.error("Usage: npm run pyodide:pin -- <version> [--from <url-or-dir>]")
+  process.exit(1)
+}
+const source = sourceArgument(process.argv) ?? cdnUrl(version)
+const download = createDownloader(source)
+
+console.log(`Pinning Pyodide ${version} from ${source}`)
+const files = {}
+for (const file of Object.keys(assets.files)) {
+  const bytes = await download(file)
+  files[file] = `sha384-${createHash("sha384").update(bytes).digest("base64")}`
+  console.log(`  ${file} ${files[file]}`)
+}
+
+await writeFile(assetsPath, `${JSON.stringify({ ...assets, version, files }, null, 2)}\n`)
+console.log(`Updated ${path.relative(root, assetsPath)} - run npm run pyodide:fetch to download the release`)
@@ -0,0 +1,21 @@
+// Reads Pyodide release files from the CDN, a mirror, or an unpacked release on disk; shared by
+// fetch-pyodide and pin-pyodide
+import { readFile } from "node:fs/promises"
+import path from "node:path"
+
+export const cdnUrl = (version) => `https://cdn.jsdelivr.net/pyodide/v${version}/full/`
+
+// The value after --from, if given
+export function sourceArgument(argv) {
+  const fromIndex = argv.indexOf("--from")
+  return fromIndex >= 0 ? argv[fromIndex + 1] : undefined
+}
+
+export function createDownloader(source) {
+  return async function download(file) {
+    if (!/^https?:\/\//.test(source)) return readFile(path.join(source, file))
+    const response = await fetch(new URL(file, source.endsWith("/") ? source : `${source}/`))
+    if (!response.ok) throw new Error(`${file}: ${response.status} ${response.statusText}`)
+    return Buffer.from(await response.arrayBuffer())
+  }
+}
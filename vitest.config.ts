@@ -0,0 +1,14 @@
+import { fileURLToPath } from "url"
+import { defineConfig } from "vitest/config"
+
+// Unit and flow tests run in Node against the mock vision provider; nothing here needs a browser
+export default defineConfig({
+  resolve: {
+    alias: { "@": fileURLToPath(new URL(".", import.meta.url)) },
+  },
+  test: {
+    include: ["**/*.test.ts"],
+    exclude: ["node_modules/**", ".next/**"],
+    environment: "node",
+  },
+})